@@ -1,87 +1,210 @@
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Step1_Upload } from './components/Step1_Upload';
 import { Dashboard } from './components/Dashboard';
 import { LegalFooter } from './components/LegalFooter';
-import { AppStep, UploadedFile, PageItem, LayoutSettings } from './types';
-import { loadPdfFile, renderPageToThumbnail } from './services/pdfService';
+import { RecentSessions } from './components/RecentSessions';
+import { StartOverDialog } from './components/StartOverDialog';
+import { ResumeSessionDialog } from './components/ResumeSessionDialog';
+import { AppStep, UploadedFile, PageItem, PageFilters, LayoutSettings, PageAnalysis, WorkshopState } from './types';
+import { getPageSizes, loadPdfFile, releaseAllPdfDocuments, releasePdfDocument } from './services/pdfService';
+import { DEFAULT_HANDOUT, DEFAULT_PAPER, getBestRotation } from './services/layoutService';
+import { DEFAULT_PAGE_NUMBERS, DEFAULT_STAMPS, DEFAULT_WATERMARK } from './services/stampService';
+import { applyPageAnalysis } from './services/pageAnalysis';
+import { isProjectFile, readProjectFile } from './services/projectFile';
+import { SessionSummary, deleteSession, getSessionName, listSessions, loadSession, saveSession } from './services/sessionStore';
+import { useThumbnails } from './hooks/useThumbnails';
+import { useOfflineStatus } from './hooks/useOfflineStatus';
+import { HistorySetter, useHistory } from './hooks/useHistory';
+import { CheckCircle2, WifiOff } from 'lucide-react';
+
+// DEFAULT: 2x2 Grid on A4 portrait + Borders enabled, untouched pages stay vector
+const DEFAULT_LAYOUT: LayoutSettings = {
+  imposition: 'grid',
+  bookletSignatureSheets: 0,
+  handout: DEFAULT_HANDOUT,
+  rows: 2,
+  cols: 2,
+  cellOrder: 'row-major',
+  paper: DEFAULT_PAPER,
+  duplex: 'off',
+  duplexFlip: 'long-edge',
+  showBorders: true,
+  pageNumbers: DEFAULT_PAGE_NUMBERS,
+  stamps: DEFAULT_STAMPS,
+  watermark: DEFAULT_WATERMARK,
+  vectorOutput: true,
+};
+
+// Ink Saver Mode until a page's thumbnail has been analyzed
+const DEFAULT_FILTERS: PageFilters = {
+  invert: false,
+  grayscale: true,
+  whiteness: 12,  // Slight brightness boost
+  blackness: 50   // High contrast
+};
 
 const App: React.FC = () => {
   // --- Global State ---
   const [currentStep, setCurrentStep] = useState<AppStep>(AppStep.UPLOAD);
   const [files, setFiles] = useState<Record<string, UploadedFile>>({});
-  const [pages, setPages] = useState<PageItem[]>([]);
-  // DEFAULT: 4-Up Grid + Borders enabled
-  const [layout, setLayout] = useState<LayoutSettings>({ nUp: 4, showBorders: true, showPageNumbers: false });
   const [isProcessingUpload, setIsProcessingUpload] = useState(false);
 
+  // Pages and layout share one undo/redo history
+  const workshop = useHistory<WorkshopState>({ pages: [], layout: DEFAULT_LAYOUT });
+  const { pages, layout } = workshop.value;
+  const { set: setWorkshop, patch: patchWorkshop } = workshop;
+
+  const setPages = useCallback<HistorySetter<PageItem[]>>((update, options) => {
+    setWorkshop(prev => {
+      const next = typeof update === 'function' ? update(prev.pages) : update;
+      return next === prev.pages ? prev : { ...prev, pages: next };
+    }, options);
+  }, [setWorkshop]);
+
+  const setLayout = useCallback<HistorySetter<LayoutSettings>>((update, options) => {
+    setWorkshop(prev => {
+      const next = typeof update === 'function' ? update(prev.layout) : update;
+      return next === prev.layout ? prev : { ...prev, layout: next };
+    }, options);
+  }, [setWorkshop]);
+
+  // --- AUTOMATION MAGIC HAPPENS HERE ---
+  // Each thumbnail is analyzed as it renders: only dark-background slides get inverted,
+  // brightness/contrast come from the page's own luminance histogram.
+  // Not an undo step: the analysis lands in every snapshot, so undo never brings back a page without it.
+  const handlePageAnalyzed = useCallback((pageId: string, analysis: PageAnalysis) => {
+    patchWorkshop(state => ({
+      ...state,
+      pages: state.pages.map(p => p.id === pageId
+        ? applyPageAnalysis(p, analysis, DEFAULT_FILTERS)
+        : p
+      ),
+    }));
+  }, [patchWorkshop]);
+
+  const { thumbnails, requestThumbnails, requestAnalysis, releaseThumbnails } = useThumbnails(files, handlePageAnalyzed);
+
+  // Pages nobody scrolls to still need their analysis (auto filters, duplicate detection)
+  useEffect(() => {
+    if (currentStep === AppStep.DASHBOARD) requestAnalysis(pages);
+  }, [currentStep, pages, requestAnalysis]);
+  const { isOnline, isOfflineReady } = useOfflineStatus();
+
+  // --- Saved Sessions ---
+  const [sessionId, setSessionId] = useState<string>(() => crypto.randomUUID());
+  const [recentSessions, setRecentSessions] = useState<SessionSummary[]>([]);
+  const [isStartOverOpen, setIsStartOverOpen] = useState(false);
+  // The newest saved session, offered for resuming once on startup
+  const [resumeOffer, setResumeOffer] = useState<SessionSummary | null>(null);
+
+  const refreshSessions = useCallback(() => {
+    listSessions()
+      .then(setRecentSessions)
+      .catch(error => console.error("Could not list saved sessions:", error));
+  }, []);
+
+  useEffect(() => {
+    listSessions()
+      .then(sessions => {
+        setRecentSessions(sessions);
+        setResumeOffer(sessions[0] ?? null);
+      })
+      .catch(error => console.error("Could not list saved sessions:", error));
+  }, []);
+
+  const saveCurrentSession = () => {
+    const fileList = Object.values(files);
+    // Nothing worth keeping before the first upload
+    if (fileList.length === 0) return Promise.resolve();
+    return saveSession({ id: sessionId, name: getSessionName(fileList), currentStep, pages, layout }, files)
+      .catch(error => console.error("Autosave failed:", error));
+  };
+
+  // Autosave shortly after the last change
+  useEffect(() => {
+    const timer = setTimeout(saveCurrentSession, 800);
+    return () => clearTimeout(timer);
+  }, [sessionId, files, pages, layout, currentStep]);
+
   // --- Handlers ---
 
   const handleFilesAdded = async (newFiles: File[]) => {
+    // Adding files (or opening a project) answers the resume question
+    setResumeOffer(null);
+    const project = newFiles.find(isProjectFile);
+    if (project) {
+      await openProject(project);
+      return;
+    }
+
     setIsProcessingUpload(true);
-    try {
-      const processedFiles: Record<string, UploadedFile> = {};
-      
-      // 1. Process Files
-      for (const f of newFiles) {
+    const processedFiles: Record<string, UploadedFile> = {};
+    const failedNames: string[] = [];
+
+    // Files that load are kept even when others in the same drop fail; their cached
+    // documents are released when they are removed, like any other file
+    for (const f of newFiles) {
+      try {
         const fileData = await loadPdfFile(f);
         processedFiles[fileData.id] = fileData;
+      } catch (error) {
+        console.error("Error loading files:", error);
+        failedNames.push(f.name);
       }
+    }
 
-      setFiles(prev => ({ ...prev, ...processedFiles }));
+    setFiles(prev => ({ ...prev, ...processedFiles }));
+    setIsProcessingUpload(false);
 
-    } catch (error) {
-      console.error("Error loading files:", error);
-      alert("Failed to load PDF file.");
-    } finally {
-      setIsProcessingUpload(false);
+    if (failedNames.length > 0) {
+      alert(`Failed to load ${failedNames.join(', ')}. Only PDFs and JPEG, PNG or WebP images are supported.`);
     }
   };
 
   const handleFileRemoved = (id: string) => {
+    releaseThumbnails(pages.filter(p => p.fileId === id).map(p => p.id));
+    releasePdfDocument(id);
     const newFiles = { ...files };
     delete newFiles[id];
     setFiles(newFiles);
   };
 
-  const generateThumbnailsAndGo = async () => {
+  // Builds placeholder pages from page sizes alone; thumbnails render later as they scroll into view
+  const preparePagesAndGo = async () => {
     if (Object.keys(files).length === 0) return;
     setIsProcessingUpload(true);
     
     try {
       const newPages: PageItem[] = [];
       
-      // Iterate all files and render every page
       for (const fileId in files) {
         const file = files[fileId];
-        for (let i = 0; i < file.pageCount; i++) {
-          const { dataUrl, width, height } = await renderPageToThumbnail(file.data, i);
-          
+        const sizes = await getPageSizes(file);
+        sizes.forEach(({ width, height }, i) => {
           newPages.push({
             id: crypto.randomUUID(),
             fileId: file.id,
             originalPageIndex: i,
-            thumbnailDataUrl: dataUrl,
             width,
             height,
             isSelected: true, // Select all by default
-            
-            // --- AUTOMATION MAGIC HAPPENS HERE ---
-            // We assume the user wants Ink Saver Mode by default.
-            filters: {
-              invert: true,
-              grayscale: true,
-              whiteness: 12,  // Slight brightness boost
-              blackness: 50   // High contrast
-            },
-            drawingDataUrl: null,
-            // We assume landscape slides need 90deg rotation to fit on A4 portrait grid
-            rotation: 90 
+            filters: { ...DEFAULT_FILTERS },
+            filterOverrides: [],
+            autoFilters: null, // Filled in by handlePageAnalyzed
+            perceptualHash: null,
+            inkCoverage: null,
+            doodles: [],
+            shapes: [],
+            // Turn each page to whichever orientation fills the current grid cell best,
+            // so landscape slides and portrait handouts can share a deck
+            rotation: getBestRotation({ width, height, rotation: 0 }, layout)
           });
-        }
+        });
       }
       
-      setPages(newPages);
+      // A fresh deck starts a fresh history
+      workshop.reset({ pages: newPages, layout });
       // Move directly to Dashboard
       setCurrentStep(AppStep.DASHBOARD);
       
@@ -93,11 +216,72 @@ const App: React.FC = () => {
     }
   };
 
-  const resetApp = () => {
+  const clearWorkspace = () => {
+    releaseThumbnails();
+    releaseAllPdfDocuments();
+  };
+
+  const openSession = async (id: string) => {
+    setResumeOffer(null);
+    try {
+      const saved = await loadSession(id);
+      if (!saved) {
+        alert("That session is no longer available.");
+        refreshSessions();
+        return;
+      }
+
+      clearWorkspace();
+      setFiles(saved.files);
+      workshop.reset({ pages: saved.session.pages, layout: saved.session.layout });
+      setCurrentStep(saved.session.currentStep);
+      setSessionId(id);
+    } catch (error) {
+      console.error("Error opening session:", error);
+      alert("Failed to open the saved session.");
+    }
+  };
+
+  // A project file replaces the workspace and opens as a new session, straight into the Dashboard
+  const openProject = async (projectFile: File) => {
+    setIsProcessingUpload(true);
+    try {
+      const { files: projectFiles, state } = readProjectFile(await projectFile.arrayBuffer());
+      clearWorkspace();
+      setFiles(projectFiles);
+      workshop.reset(state);
+      setCurrentStep(AppStep.DASHBOARD);
+      setSessionId(crypto.randomUUID());
+    } catch (error) {
+      console.error("Error opening project:", error);
+      alert(error instanceof Error ? error.message : "Failed to open the project file.");
+    } finally {
+      setIsProcessingUpload(false);
+    }
+  };
+
+  const removeSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (error) {
+      console.error("Error deleting session:", error);
+    }
+    refreshSessions();
+  };
+
+  // Starts a new session; the old one stays in Recent Sessions unless discarded
+  const resetApp = async (discardSaved: boolean) => {
+    setIsStartOverOpen(false);
+    // The pending autosave is cancelled below, so a kept session gets its last changes now
+    if (!discardSaved) await saveCurrentSession();
+    clearWorkspace();
     setFiles({});
-    setPages([]);
-    setLayout({ nUp: 4, showBorders: true, showPageNumbers: false });
+    workshop.reset({ pages: [], layout: DEFAULT_LAYOUT });
     setCurrentStep(AppStep.UPLOAD);
+    setSessionId(crypto.randomUUID());
+
+    if (discardSaved) await removeSession(sessionId);
+    else refreshSessions();
   };
 
   // --- Render ---
@@ -122,8 +306,17 @@ const App: React.FC = () => {
             <span className="font-bold text-xl tracking-tight">PDFbhai</span>
           </div>
           <div className="flex items-center gap-4">
+             {(isOfflineReady || !isOnline) && (
+                 <span
+                     className={`flex items-center gap-1.5 text-xs font-medium ${isOfflineReady ? 'text-emerald-600 dark:text-emerald-400' : 'text-amber-600 dark:text-amber-400'}`}
+                     title={isOfflineReady ? 'Everything is cached on this device. PDFbhai keeps working without internet.' : 'No connection, and the app has not finished caching yet.'}
+                 >
+                     {isOfflineReady ? <CheckCircle2 size={14} /> : <WifiOff size={14} />}
+                     {isOnline ? 'Works offline' : isOfflineReady ? 'Offline' : 'Offline (not cached)'}
+                 </span>
+             )}
              {currentStep === AppStep.DASHBOARD && (
-                 <button onClick={resetApp} className="text-sm font-medium text-gray-500 hover:text-red-500 transition-colors">
+                 <button onClick={() => setIsStartOverOpen(true)} className="text-sm font-medium text-gray-500 hover:text-red-500 transition-colors">
                      Start Over
                  </button>
              )}
@@ -136,11 +329,14 @@ const App: React.FC = () => {
         
         {currentStep === AppStep.UPLOAD && (
           <div className="w-full max-w-4xl mt-10">
+              {Object.keys(files).length === 0 && (
+                <RecentSessions sessions={recentSessions} onOpen={openSession} onDelete={removeSession} />
+              )}
               <Step1_Upload 
                 files={Object.values(files)} 
                 onFilesAdded={handleFilesAdded} 
                 onFileRemoved={handleFileRemoved}
-                onNext={generateThumbnailsAndGo}
+                onNext={preparePagesAndGo}
                 isProcessing={isProcessingUpload}
               />
           </div>
@@ -151,13 +347,35 @@ const App: React.FC = () => {
             pages={pages}
             setPages={setPages}
             files={files} 
+            thumbnails={thumbnails}
+            onRequestThumbnails={requestThumbnails}
             layout={layout}
             setLayout={setLayout}
-            onReset={resetApp}
+            onUndo={workshop.undo}
+            onRedo={workshop.redo}
+            canUndo={workshop.canUndo}
+            canRedo={workshop.canRedo}
+            onReset={() => setIsStartOverOpen(true)}
           />
         )}
       </main>
 
+      {isStartOverOpen && (
+        <StartOverDialog
+          onKeepSaved={() => resetApp(false)}
+          onDiscard={() => resetApp(true)}
+          onCancel={() => setIsStartOverOpen(false)}
+        />
+      )}
+
+      {resumeOffer && (
+        <ResumeSessionDialog
+          session={resumeOffer}
+          onResume={() => openSession(resumeOffer.id)}
+          onDismiss={() => setResumeOffer(null)}
+        />
+      )}
+
       <LegalFooter />
     </div>
   );
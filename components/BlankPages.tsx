@@ -0,0 +1,54 @@
+import React from 'react';
+import { FileX } from 'lucide-react';
+import { PageItem } from '../types';
+import { isBlankPage } from '../services/pageAnalysis';
+
+interface BlankPagesProps {
+  pages: PageItem[];
+  threshold: number; // 0-1 ink coverage at or below which a page counts as blank
+  onThresholdChange: (threshold: number) => void;
+  onDeselect: () => void;
+}
+
+// Highest threshold the slider offers; beyond a few percent pages carry real content
+const MAX_THRESHOLD_PERCENT = 5;
+
+// Flags blank separators and empty scanned backs, with a one-click deselect.
+// Hidden while no page would count as blank even at the highest threshold.
+export const BlankPages: React.FC<BlankPagesProps> = ({ pages, threshold, onThresholdChange, onDeselect }) => {
+  if (!pages.some(p => isBlankPage(p, MAX_THRESHOLD_PERCENT / 100))) return null;
+
+  const blankPages = pages.filter(p => isBlankPage(p, threshold));
+  const selectedBlank = blankPages.filter(p => p.isSelected).length;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto px-4 pt-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs bg-gray-100 dark:bg-zinc-900 border border-gray-200 dark:border-zinc-800 text-gray-700 dark:text-gray-300 rounded-xl px-3 py-2">
+        <FileX size={14} />
+        <span className="font-bold">
+          {blankPages.length} blank or near-blank page{blankPages.length === 1 ? '' : 's'}
+          {selectedBlank > 0 && ` · ${selectedBlank} still selected`}
+        </span>
+
+        <label className="flex items-center gap-2 text-gray-500" title="Pages with at most this much ink count as blank">
+          Ink ≤
+          <input
+            type="range" min="0" max={MAX_THRESHOLD_PERCENT} step="0.1"
+            value={threshold * 100}
+            onChange={(e) => onThresholdChange(Number(e.target.value) / 100)}
+            className="w-24 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+          />
+          <span className="w-10">{(threshold * 100).toFixed(1)}%</span>
+        </label>
+
+        <button
+          onClick={onDeselect}
+          disabled={selectedBlank === 0}
+          className="ml-auto font-bold bg-gray-900 text-white dark:bg-white dark:text-black px-3 py-1 rounded-md hover:opacity-80 disabled:opacity-40"
+        >
+          Deselect blank pages
+        </button>
+      </div>
+    </div>
+  );
+};
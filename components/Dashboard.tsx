@@ -1,241 +1,61 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { PageItem, LayoutSettings, UploadedFile } from '../types';
-import { generateFinalPdf } from '../services/pdfService';
+import { HistorySetter } from '../hooks/useHistory';
+import { Box, PageItem, PageFilters, DoodleShape, DoodleStroke, LayoutSettings, UploadedFile, PageRenderMode, PaperSettings, PaperSize, CellOrder, DuplexMode, SheetStampSettings, WatermarkSettings, PageNumberSettings as PageNumberOptions, HandoutSettings as HandoutOptions, Imposition, SheetImageOptions } from '../types';
+import { getPageRenderMode, toCssFilter } from '../services/pdfService';
+import { exportSheets } from '../services/exportService';
+import { PROJECT_EXTENSION, createProjectFile } from '../services/projectFile';
+import { selectBetween } from '../services/selectionService';
+import { findNearDuplicateGroups, isBlankPage, needsAnalysis } from '../services/pageAnalysis';
+import { MAX_GRID_SIZE, PAPER_SIZES, countPhysicalSheets, fitPageInCell, getBestRotation, getSheetCells, getSheetNumber, getSheetSize, planSheets, selectDuplexSides } from '../services/layoutService';
+import { getPageNumberLabels } from '../services/stampService';
 import { 
   Download, Settings, Sliders, Loader2, CheckCircle, RefreshCcw, 
-  Moon, Sun, RotateCw, PenTool, X, Save, Pencil, Highlighter, Eraser, 
-  ChevronDown, CheckSquare, Square, Copy, Hash
+  Moon, Sun, RotateCw, PenTool, X, 
+  CheckSquare, Square, Layers, Image as ImageIcon,
+  RectangleVertical, RectangleHorizontal, LayoutGrid, BookOpen, NotebookPen, Maximize, Undo2, Redo2, FolderDown, FileX, Images
 } from 'lucide-react';
 import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent, DragStartEvent, DragOverlay } from '@dnd-kit/core';
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, rectSortingStrategy, useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-
-// --- Doodle Modal Component ---
-interface DoodleModalProps {
-    page: PageItem;
-    onClose: () => void;
-    onSave: (drawingDataUrl: string) => void;
-    onApplyToAll: (drawingDataUrl: string) => void;
-}
-
-const DoodleModal: React.FC<DoodleModalProps> = ({ page, onClose, onSave, onApplyToAll }) => {
-    const canvasRef = useRef<HTMLCanvasElement>(null);
-    const [isDrawing, setIsDrawing] = useState(false);
-    const [tool, setTool] = useState<'pencil' | 'marker' | 'eraser'>('pencil');
-    const [color, setColor] = useState('#000000');
-    const [markerSize, setMarkerSize] = useState(15);
-    
-    useEffect(() => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        
-        canvas.width = page.width;
-        canvas.height = page.height;
-        
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        if (page.drawingDataUrl) {
-            const img = new Image();
-            img.src = page.drawingDataUrl;
-            img.onload = () => ctx.drawImage(img, 0, 0);
-        }
-        
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-    }, [page]);
-
-    const getCoordinates = (e: React.MouseEvent | React.TouchEvent | MouseEvent | TouchEvent) => {
-        const canvas = canvasRef.current;
-        if (!canvas) return { x: 0, y: 0 };
-        
-        const rect = canvas.getBoundingClientRect();
-        const clientX = 'touches' in e ? (e as any).touches[0].clientX : (e as any).clientX;
-        const clientY = 'touches' in e ? (e as any).touches[0].clientY : (e as any).clientY;
-        
-        const scaleX = canvas.width / rect.width;
-        const scaleY = canvas.height / rect.height;
-        
-        return {
-            x: (clientX - rect.left) * scaleX,
-            y: (clientY - rect.top) * scaleY
-        };
-    };
-
-    const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        setIsDrawing(true);
-        const { x, y } = getCoordinates(e);
-
-        ctx.beginPath();
-        ctx.moveTo(x, y);
-        
-        if (tool === 'pencil') {
-            ctx.strokeStyle = color;
-            ctx.lineWidth = 3; 
-            ctx.globalAlpha = 0.9;
-            ctx.globalCompositeOperation = 'source-over';
-        } else if (tool === 'marker') {
-            ctx.strokeStyle = color;
-            ctx.lineWidth = markerSize;
-            ctx.globalAlpha = 0.4;
-            ctx.globalCompositeOperation = 'source-over';
-        } else if (tool === 'eraser') {
-            ctx.strokeStyle = '#000000';
-            ctx.lineWidth = markerSize; // Eraser uses size slider too
-            ctx.globalAlpha = 1;
-            ctx.globalCompositeOperation = 'destination-out';
-        }
-    };
-
-    const draw = (e: React.MouseEvent | React.TouchEvent) => {
-        if (!isDrawing) return;
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-        
-        e.preventDefault(); 
-        const { x, y } = getCoordinates(e);
-
-        ctx.lineTo(x, y);
-        ctx.stroke();
-    };
-
-    const stopDrawing = () => setIsDrawing(false);
-
-    const handleSave = () => {
-        if (canvasRef.current) {
-            onSave(canvasRef.current.toDataURL());
-        }
-        onClose();
-    };
-
-    const handleApplyAll = () => {
-        if (canvasRef.current && confirm('This will overwrite any drawings on all other slides. Continue?')) {
-            onApplyToAll(canvasRef.current.toDataURL());
-            onClose();
-        }
-    }
-
-    const brightnessVal = 1 + (page.filters.whiteness / 100);
-    const contrastVal = 1 + (page.filters.blackness / 100);
-    const filterString = `
-        grayscale(${page.filters.grayscale ? 1 : 0}) 
-        invert(${page.filters.invert ? 1 : 0}) 
-        brightness(${brightnessVal}) 
-        contrast(${contrastVal})
-    `;
-
-    const presetColors = ['#000000', '#FFFFFF', '#EF4444', '#F59E0B', '#10B981', '#3B82F6', '#8B5CF6'];
-
-    return (
-        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={(e) => e.stopPropagation()}>
-            <div className="bg-white dark:bg-[#1a1a1a] w-full max-w-4xl h-[90vh] rounded-3xl flex flex-col shadow-2xl overflow-hidden animate-fade-in">
-                <div className="p-4 border-b border-gray-200 dark:border-zinc-800 flex justify-between items-center bg-gray-50 dark:bg-zinc-900">
-                    <h3 className="font-bold text-lg dark:text-white flex items-center gap-2"><PenTool size={18} /> Doodle Studio</h3>
-                    <div className="flex gap-2">
-                        <button onClick={onClose} className="p-2 hover:bg-gray-200 dark:hover:bg-zinc-800 rounded-lg text-gray-500"><X size={20} /></button>
-                         <button onClick={handleApplyAll} className="px-3 py-2 bg-gray-200 dark:bg-zinc-800 text-gray-700 dark:text-white rounded-lg font-medium flex items-center gap-2 hover:bg-gray-300 dark:hover:bg-zinc-700 text-xs sm:text-sm">
-                            <Copy size={16} /> Apply to All
-                        </button>
-                        <button onClick={handleSave} className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium flex items-center gap-2 hover:bg-indigo-700">
-                            <Save size={18} /> Save
-                        </button>
-                    </div>
-                </div>
-
-                <div className="p-4 border-b border-gray-200 dark:border-zinc-800 flex gap-4 items-center overflow-x-auto">
-                    <div className="flex bg-gray-100 dark:bg-zinc-800 p-1 rounded-xl">
-                        {['pencil', 'marker', 'eraser'].map((t) => (
-                            <button 
-                                key={t}
-                                onClick={() => setTool(t as any)}
-                                className={`p-2 rounded-lg capitalize text-xs font-bold flex flex-col items-center gap-1 w-16 ${tool === t ? 'bg-white dark:bg-zinc-700 shadow text-indigo-600' : 'text-gray-500 hover:bg-gray-200 dark:hover:bg-zinc-700'}`}
-                            >
-                                {t === 'pencil' && <Pencil size={16} />}
-                                {t === 'marker' && <Highlighter size={16} />}
-                                {t === 'eraser' && <Eraser size={16} />}
-                                {t}
-                            </button>
-                        ))}
-                    </div>
-                    
-                    {(tool === 'marker' || tool === 'eraser') && (
-                         <div className="flex items-center gap-2 pl-4 border-l border-gray-200 dark:border-zinc-700">
-                             <div className="flex items-center gap-2 bg-gray-100 dark:bg-zinc-800 px-3 py-1.5 rounded-lg">
-                                 <span className="text-[10px] font-bold text-gray-500 uppercase">Size</span>
-                                 <input 
-                                    type="range" 
-                                    min="5" max="100" 
-                                    value={markerSize}
-                                    onChange={(e) => setMarkerSize(Number(e.target.value))}
-                                    className="w-20 h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-indigo-600"
-                                 />
-                             </div>
-                         </div>
-                    )}
-
-                    {(tool === 'pencil' || tool === 'marker') && (
-                        <div className="flex items-center gap-2 pl-4 border-l border-gray-200 dark:border-zinc-700">
-                             {presetColors.map(c => (
-                                <button 
-                                    key={c} 
-                                    onClick={() => setColor(c)}
-                                    className={`w-8 h-8 rounded-full border-2 ${color === c ? 'border-indigo-600 scale-110' : 'border-transparent hover:scale-105'} transition-all shadow-sm`}
-                                    style={{ backgroundColor: c, borderColor: c === '#FFFFFF' ? '#e5e7eb' : undefined }}
-                                />
-                             ))}
-                             <input type="color" value={color} onChange={e => setColor(e.target.value)} className="w-8 h-8 rounded-full cursor-pointer overflow-hidden border-0 p-0" />
-                        </div>
-                    )}
-                </div>
-
-                <div className="flex-1 bg-gray-200 dark:bg-zinc-950 overflow-auto flex items-center justify-center p-8 relative">
-                    <div className="relative shadow-2xl bg-white" style={{ width: 'fit-content', height: 'fit-content' }}>
-                        <img 
-                            src={page.thumbnailDataUrl} 
-                            style={{ maxWidth: '100%', maxHeight: '65vh', display: 'block', filter: filterString }} 
-                            className="pointer-events-none select-none"
-                        />
-                        <canvas
-                            ref={canvasRef}
-                            onMouseDown={startDrawing}
-                            onMouseMove={draw}
-                            onMouseUp={stopDrawing}
-                            onMouseLeave={stopDrawing}
-                            onTouchStart={startDrawing}
-                            onTouchMove={draw}
-                            onTouchEnd={stopDrawing}
-                            className={`absolute inset-0 touch-none ${tool === 'eraser' ? 'cursor-cell' : 'cursor-crosshair'}`}
-                        />
-                    </div>
-                </div>
-            </div>
-        </div>
-    );
-};
-
+import { FilterEditor } from './FilterEditor';
+import { SelectionBar } from './SelectionBar';
+import { DuplicateGroups } from './DuplicateGroups';
+import { BlankPages } from './BlankPages';
+import { DoodleModal } from './DoodleModal';
+import { DoodleLayer } from './DoodleLayer';
+import { StampSettings } from './StampSettings';
+import { PageNumberSettings } from './PageNumberSettings';
+import { SheetStampOverlay } from './SheetStampOverlay';
+import { HandoutSettings } from './HandoutSettings';
+import { HandoutNotes } from './HandoutNotes';
 
 // --- Sortable Item Component (The Slide) ---
 const SortableSlideItem = ({ 
     pageItem, 
+    thumbnailUrl,
     layout, 
+    cell,
+    renderMode,
+    isBlank,
     onToggleSelect, 
     onRotate, 
     onEdit, 
+    onEditFilters,
+    onToggleInvert,
     isDragging 
 }: { 
     pageItem: PageItem, 
+    thumbnailUrl?: string,
     layout: LayoutSettings, 
-    onToggleSelect: (id: string) => void,
+    cell: Box,
+    renderMode: PageRenderMode,
+    isBlank: boolean,
+    onToggleSelect: (id: string, extendRange: boolean) => void,
     onRotate: (id: string) => void,
     onEdit: (item: PageItem) => void,
+    onEditFilters: (id: string) => void,
+    onToggleInvert: (id: string) => void,
     isDragging?: boolean
 }) => {
     const { attributes, listeners, setNodeRef, transform, transition } = useSortable({ id: pageItem.id });
@@ -248,14 +68,23 @@ const SortableSlideItem = ({
     };
 
     // Filters
-    const brightnessVal = 1 + (pageItem.filters.whiteness / 100);
-    const contrastVal = 1 + (pageItem.filters.blackness / 100);
-    const filterString = `
-        grayscale(${pageItem.filters.grayscale ? 1 : 0}) 
-        invert(${pageItem.filters.invert ? 1 : 0}) 
-        brightness(${brightnessVal}) 
-        contrast(${contrastVal})
-    `;
+    const filterString = toCssFilter(pageItem.filters);
+
+    // The turned page sits where the exporter puts it (PDF y grows upwards, CSS downwards).
+    // Inside that box the unturned page is centred and rotated into place.
+    const pageBox = fitPageInCell(pageItem, cell);
+    const isSideways = pageItem.rotation === 90 || pageItem.rotation === 270;
+    const pageBoxStyle = {
+        left: `${((pageBox.x - cell.x) / cell.width) * 100}%`,
+        top: `${((cell.y + cell.height - pageBox.y - pageBox.height) / cell.height) * 100}%`,
+        width: `${(pageBox.width / cell.width) * 100}%`,
+        height: `${(pageBox.height / cell.height) * 100}%`,
+    };
+    const pageStyle = {
+        width: isSideways ? `${(pageBox.height / pageBox.width) * 100}%` : '100%',
+        height: isSideways ? `${(pageBox.width / pageBox.height) * 100}%` : '100%',
+        transform: `translate(-50%, -50%) rotate(${pageItem.rotation}deg)`,
+    };
 
     return (
         <div 
@@ -270,35 +99,73 @@ const SortableSlideItem = ({
             `}
         >
              {/* Image Container with Rotation */}
-            <div 
-                className="relative w-full h-full flex items-center justify-center transition-transform duration-300 pointer-events-none"
-                style={{ transform: `rotate(${pageItem.rotation}deg)` }}
-            >
-                <img 
-                    src={pageItem.thumbnailDataUrl} 
-                    className="max-w-full max-h-full object-contain"
-                    style={{ filter: filterString }}
-                />
-                {pageItem.drawingDataUrl && (
-                    <img 
-                        src={pageItem.drawingDataUrl}
-                        className="absolute inset-0 w-full h-full object-contain z-10"
-                    />
-                )}
+            <div className="absolute pointer-events-none" style={pageBoxStyle}>
+                <div className="absolute left-1/2 top-1/2 transition-transform duration-300" style={pageStyle}>
+                    {thumbnailUrl ? (
+                        <img 
+                            src={thumbnailUrl} 
+                            className="w-full h-full"
+                            style={{ filter: filterString }}
+                        />
+                    ) : (
+                        // Placeholder until the thumbnail renders
+                        <div className="w-full h-full bg-gray-200 rounded-sm animate-pulse" />
+                    )}
+                    {(pageItem.doodles.length > 0 || pageItem.shapes.length > 0) && (
+                        <DoodleLayer
+                            strokes={pageItem.doodles}
+                            shapes={pageItem.shapes}
+                            width={pageItem.width}
+                            height={pageItem.height}
+                            className="absolute inset-0 w-full h-full z-10"
+                        />
+                    )}
+                </div>
             </div>
 
             {/* Selection Checkbox (Top Left) */}
             <div 
                 className="absolute top-2 left-2 z-30 cursor-pointer text-gray-400 hover:text-indigo-600 bg-white/80 rounded-sm"
-                onPointerDown={(e) => { e.stopPropagation(); onToggleSelect(pageItem.id); }}
+                onPointerDown={(e) => { e.stopPropagation(); onToggleSelect(pageItem.id, e.shiftKey); }}
             >
                  {pageItem.isSelected ? <CheckSquare size={24} className="text-indigo-600" /> : <Square size={24} />}
             </div>
 
-             {/* Page Number (If enabled) - Preview only */}
-             {layout.showPageNumbers && (
-                <div className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-white/90 text-black text-[10px] font-bold px-2 py-0.5 rounded-full z-20 pointer-events-none">
-                    {pageItem.originalPageIndex + 1}
+            {/* Auto Invert Decision + Filter Override Marker (Top Right) */}
+            <div className="absolute top-2 right-2 z-30 flex items-center gap-1">
+                {pageItem.autoFilters && (
+                    <button
+                        onPointerDown={(e) => { e.stopPropagation(); onToggleInvert(pageItem.id); }}
+                        className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded-sm flex items-center gap-1 shadow-sm ${pageItem.filters.invert ? 'bg-gray-900 text-white' : 'bg-white/90 text-gray-700'}`}
+                        title={`${pageItem.autoFilters.isDarkBackground ? 'Dark' : 'Light'} background detected (luminance ${pageItem.autoFilters.backgroundLuminance}). Click to ${pageItem.filters.invert ? 'stop inverting' : 'invert'} this page.`}
+                    >
+                        {pageItem.filters.invert ? <Moon size={10} /> : <Sun size={10} />}
+                        {pageItem.filterOverrides.includes('invert') ? 'Manual' : 'Auto'}
+                    </button>
+                )}
+                {pageItem.filterOverrides.length > 0 && (
+                    <div className="pointer-events-none bg-indigo-600 text-white p-1 rounded-full shadow" title="Custom filters for this page">
+                        <Sliders size={10} />
+                    </div>
+                )}
+            </div>
+
+            {/* Export Mode Badge (Bottom Left) */}
+            <div
+                className={`absolute bottom-2 left-2 z-20 pointer-events-none text-[9px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded-sm flex items-center gap-1 ${renderMode === 'vector' ? 'bg-emerald-100/90 text-emerald-700' : 'bg-amber-100/90 text-amber-700'}`}
+                title={renderMode === 'vector' ? 'Exported as the original page (sharp text)' : 'Exported as an image (filters applied)'}
+            >
+                {renderMode === 'vector' ? <Layers size={10} /> : <ImageIcon size={10} />}
+                {renderMode}
+            </div>
+
+            {/* Blank Page Flag (Bottom Right) */}
+            {isBlank && (
+                <div
+                    className="absolute bottom-2 right-2 z-20 pointer-events-none text-[9px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded-sm flex items-center gap-1 bg-gray-200/90 text-gray-600"
+                    title={`Almost no ink on this page (${((pageItem.inkCoverage ?? 0) * 100).toFixed(1)}% coverage)`}
+                >
+                    <FileX size={10} /> Blank
                 </div>
             )}
 
@@ -312,6 +179,13 @@ const SortableSlideItem = ({
                     >
                         <RotateCw size={16} />
                     </button>
+                    <button 
+                        onPointerDown={(e) => { e.stopPropagation(); onEditFilters(pageItem.id); }}
+                        className="bg-white/90 text-gray-800 p-2 rounded-full shadow-lg hover:bg-white hover:scale-110 transition-all"
+                        title="Page filters"
+                    >
+                        <Sliders size={16} />
+                    </button>
                     <button 
                         onPointerDown={(e) => { e.stopPropagation(); onEdit(pageItem); }}
                         className="bg-indigo-600 text-white p-2 rounded-full shadow-lg hover:bg-indigo-700 hover:scale-110 transition-all"
@@ -325,22 +199,122 @@ const SortableSlideItem = ({
     )
 }
 
+// --- Small numeric input for paper dimensions (millimetres) ---
+// Keeps the typed text locally so half-typed values like "2" on the way to "210" aren't
+// clamped away; values below `min` only get clamped once the field loses focus.
+const PaperInput = ({ label, value, min, onChange }: { label: string, value: number, min: number, onChange: (value: number) => void }) => {
+    const [text, setText] = useState(String(value));
+
+    // Follow outside changes (undo, paper presets) without clobbering what is being typed
+    useEffect(() => {
+        setText(prev => Number(prev) === value && prev.trim() !== '' ? prev : String(value));
+    }, [value]);
+
+    const commit = () => {
+        const next = Number(text);
+        if (text.trim() === '' || Number.isNaN(next)) {
+            setText(String(value));
+        } else if (next < min) {
+            onChange(min);
+            setText(String(min));
+        }
+    };
+
+    return (
+        <label className="flex items-center gap-1 bg-gray-100 dark:bg-zinc-800 px-2 py-1 rounded-md">
+            <span className="shrink-0">{label}</span>
+            <input
+                type="number"
+                min={min}
+                step={0.5}
+                value={text}
+                onChange={(e) => {
+                    setText(e.target.value);
+                    const next = Number(e.target.value);
+                    if (e.target.value.trim() !== '' && !Number.isNaN(next) && next >= min) onChange(next);
+                }}
+                onBlur={commit}
+                onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+                className="w-full bg-transparent text-right text-xs text-gray-900 dark:text-white outline-none"
+            />
+        </label>
+    );
+};
+
+// --- Grid presets (the old fixed N-up choices) and row/column pickers ---
+const GRID_PRESETS = [
+    { label: '1', rows: 1, cols: 1 },
+    { label: '2', rows: 2, cols: 1 },
+    { label: '4', rows: 2, cols: 2 },
+    { label: '6', rows: 3, cols: 2 },
+    { label: '8', rows: 4, cols: 2 },
+    { label: '16', rows: 4, cols: 4 },
+];
+
+const IMPOSITION_ICONS: Record<Imposition, React.ReactNode> = {
+    grid: <LayoutGrid size={12} />,
+    booklet: <BookOpen size={12} />,
+    handout: <NotebookPen size={12} />,
+};
+
+const GridSizeSelect = ({ label, value, onChange }: { label: string, value: number, onChange: (value: number) => void }) => (
+    <label className="flex items-center gap-1 bg-gray-100 dark:bg-zinc-800 px-2 py-1 rounded-md">
+        <span>{label}</span>
+        <select value={value} onChange={(e) => onChange(Number(e.target.value))} className="bg-transparent text-gray-900 dark:text-white outline-none">
+            {Array.from({ length: MAX_GRID_SIZE }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+        </select>
+    </label>
+);
+
+const MIXED_TOGGLE_CLASS = 'border-dashed border-indigo-400 text-indigo-600 dark:text-indigo-400';
+
+const withOverride = (overrides: (keyof PageFilters)[], key: keyof PageFilters) =>
+    overrides.includes(key) ? overrides : [...overrides, key];
+
+const downloadBytes = (bytes: Uint8Array, type: string, fileName: string) => {
+    const blob = new Blob([bytes as BlobPart], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
 // --- Main Dashboard Component ---
 
 interface DashboardProps {
   pages: PageItem[];
-  setPages: React.Dispatch<React.SetStateAction<PageItem[]>>;
+  setPages: HistorySetter<PageItem[]>;
   files: Record<string, UploadedFile>;
+  thumbnails: Record<string, string>; // Blob URLs by page id, rendered on demand
+  onRequestThumbnails: (pages: PageItem[]) => void;
   layout: LayoutSettings;
-  setLayout: React.Dispatch<React.SetStateAction<LayoutSettings>>;
+  setLayout: HistorySetter<LayoutSettings>;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   onReset: () => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, layout, setLayout, onReset }) => {
+// Slider drags and typed numbers become one undo step per control; toggles stay separate steps
+const sliderGroup = (name: string, value: unknown) => typeof value === 'number' ? { group: name } : undefined;
+
+export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, thumbnails, onRequestThumbnails, layout, setLayout, onUndo, onRedo, canUndo, canRedo, onReset }) => {
   const [isCustomizing, setIsCustomizing] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
   const [editingPage, setEditingPage] = useState<PageItem | null>(null);
-  const [displayCount, setDisplayCount] = useState(20);
+  const [filterPageId, setFilterPageId] = useState<string | null>(null);
+  const [filterScope, setFilterScope] = useState<'all' | 'selected'>('all');
+  const [visibleSheets, setVisibleSheets] = useState<number[]>([]);
+  const [blankThreshold, setBlankThreshold] = useState(0.005); // Up to 0.5% ink counts as blank
+  const [imageExport, setImageExport] = useState<SheetImageOptions>({ format: 'png', dpi: 150 });
+  const [exportSummary, setExportSummary] = useState<{ pages: number; sheets: number; blankSkipped: number } | null>(null);
   const [activeDragId, setActiveDragId] = useState<string | null>(null);
 
   const sensors = useSensors(
@@ -348,36 +322,158 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
     useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
   );
 
-  // Derived global stats for filters (using first page as source of truth for UI sliders)
-  const firstPage = pages[0];
+  // Derived global filter state: one value when every page in scope agrees, otherwise mixed
+  const filterTargets = filterScope === 'selected' ? pages.filter(p => p.isSelected) : pages;
+  const getFilterState = <K extends keyof PageFilters>(key: K): { value: PageFilters[K]; mixed: boolean } => {
+      const value = (filterTargets[0] ?? pages[0]).filters[key];
+      return { value, mixed: filterTargets.some(p => p.filters[key] !== value) };
+  };
+  const invertState = getFilterState('invert');
+  const grayscaleState = getFilterState('grayscale');
+  const whitenessState = getFilterState('whiteness');
+  const blacknessState = getFilterState('blackness');
+  const filterPage = pages.find(p => p.id === filterPageId);
   
-  const handleDownload = async () => {
+  // Downloads the PDF, or with `images` set a ZIP with one image per sheet
+  const handleDownload = async (images?: SheetImageOptions) => {
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
     setIsGenerating(true);
+    setExportProgress(null);
+    setExportSummary(null);
     try {
-        const pdfBytes = await generateFinalPdf(pages, files, layout);
-        const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = 'PDFbhai-Optimized.pdf';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+        const bytes = await exportSheets(pages, files, layout, {
+            signal: controller.signal,
+            onProgress: (done, total) => setExportProgress({ done, total }),
+            images,
+        });
+        if (images) downloadBytes(bytes, 'application/zip', 'PDFbhai-Sheets.zip');
+        else downloadBytes(bytes, 'application/pdf', 'PDFbhai-Optimized.pdf');
+        setExportSummary({
+            pages: activePages.length,
+            sheets: pagesToPrint,
+            blankSkipped: pages.filter(p => !p.isSelected && isBlankPage(p, blankThreshold)).length,
+        });
     } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
         console.error(err);
-        alert('Failed to generate PDF. Please try again.');
+        alert(images ? 'Failed to export the sheet images. Try a lower DPI.' : 'Failed to generate PDF. Please try again.');
     } finally {
+        exportAbortRef.current = null;
         setIsGenerating(false);
+        setExportProgress(null);
     }
   };
 
+  const cancelDownload = () => exportAbortRef.current?.abort();
+
+  // Bundles the source PDFs and every edit so someone else can pick up the job
+  const handleSaveProject = () => {
+      try {
+          const firstFile = files[pages[0]?.fileId];
+          const baseName = firstFile ? firstFile.name.replace(/\.(pdf|jpe?g|png|webp)$/i, '') : 'PDFbhai';
+          downloadBytes(createProjectFile(files, { pages, layout }), 'application/zip', `${baseName}${PROJECT_EXTENSION}`);
+      } catch (err) {
+          console.error(err);
+          alert('Failed to save the project. Please try again.');
+      }
+  };
+
+  // --- Undo / Redo ---
+  // Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes. Text fields keep their own undo,
+  // and nothing changes behind the open doodle editor.
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const key = e.key.toLowerCase();
+          if (!(e.ctrlKey || e.metaKey) || (key !== 'z' && key !== 'y')) return;
+
+          const target = e.target as HTMLElement;
+          const isTextField = target.isContentEditable || target instanceof HTMLTextAreaElement
+              || (target instanceof HTMLInputElement && target.type !== 'range' && target.type !== 'checkbox');
+          if (isTextField || editingPage) return;
+
+          e.preventDefault();
+          if (key === 'y' || e.shiftKey) onRedo(); else onUndo();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editingPage, onUndo, onRedo]);
+
+  const historyButtons = (
+      <div className="flex items-center">
+          <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              title="Undo (Ctrl+Z)"
+          >
+              <Undo2 size={16} />
+          </button>
+          <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              title="Redo (Ctrl+Shift+Z)"
+          >
+              <Redo2 size={16} />
+          </button>
+      </div>
+  );
+
+  // Stop a running export when leaving the Dashboard
+  useEffect(() => () => exportAbortRef.current?.abort(), []);
+
   // --- Bulk Filter Updates ---
-  const updateGlobalFilter = (key: keyof PageItem['filters'], value: any) => {
-      setPages(prev => prev.map(p => ({
-          ...p,
-          filters: { ...p.filters, [key]: value }
-      })));
+  // "All pages" skips per-page overrides so they survive global tweaks.
+  // "Selected" is a deliberate edit of those pages, so it becomes their override.
+  const updateGlobalFilter = <K extends keyof PageFilters>(key: K, value: PageFilters[K]) => {
+      setPages(prev => prev.map(p => {
+          if (filterScope === 'selected') {
+              if (!p.isSelected) return p;
+              return { ...p, filters: { ...p.filters, [key]: value }, filterOverrides: withOverride(p.filterOverrides, key) };
+          }
+          if (p.filterOverrides.includes(key)) return p;
+          return { ...p, filters: { ...p.filters, [key]: value } };
+      }), sliderGroup(`filter-${key}`, value));
+  };
+
+  const updatePageFilter = <K extends keyof PageFilters>(pageId: string, key: K, value: PageFilters[K]) => {
+      setPages(prev => prev.map(p => p.id === pageId
+          ? { ...p, filters: { ...p.filters, [key]: value }, filterOverrides: withOverride(p.filterOverrides, key) }
+          : p
+      ), sliderGroup(`filter-${pageId}-${key}`, value));
+  };
+
+  const applyAutoFilters = (pageId: string) => {
+      setPages(prev => prev.map(p => p.id === pageId && p.autoFilters
+          ? { ...p, filters: { ...p.autoFilters.suggested }, filterOverrides: Object.keys(p.autoFilters.suggested) as (keyof PageFilters)[] }
+          : p
+      ));
+  };
+
+  const clearFilterOverrides = (pageId: string) => {
+      setPages(prev => prev.map(p => p.id === pageId ? { ...p, filterOverrides: [] } : p));
+  };
+
+  const updatePaper = <K extends keyof PaperSettings>(key: K, value: PaperSettings[K]) => {
+      setLayout(prev => ({ ...prev, paper: { ...prev.paper, [key]: value } }), sliderGroup(`paper-${key}`, value));
+  };
+
+  // Typing into a stamp field groups like a slider drag
+  const updateStamps = <K extends keyof SheetStampSettings>(key: K, value: SheetStampSettings[K]) => {
+      setLayout(prev => ({ ...prev, stamps: { ...prev.stamps, [key]: value } }), { group: `stamps-${key}` });
+  };
+
+  const updatePageNumbers = <K extends keyof PageNumberOptions>(key: K, value: PageNumberOptions[K]) => {
+      setLayout(prev => ({ ...prev, pageNumbers: { ...prev.pageNumbers, [key]: value } }), { group: `pageNumbers-${key}` });
+  };
+
+  const updateHandout = <K extends keyof HandoutOptions>(key: K, value: HandoutOptions[K]) => {
+      setLayout(prev => ({ ...prev, handout: { ...prev.handout, [key]: value } }), { group: `handout-${key}` });
+  };
+
+  const updateWatermark = <K extends keyof WatermarkSettings>(key: K, value: WatermarkSettings[K]) => {
+      setLayout(prev => ({ ...prev, watermark: { ...prev.watermark, [key]: value } }), { group: `watermark-${key}` });
   };
 
   const rotateAll = (deg: number) => {
@@ -387,6 +483,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
     })));
   };
 
+  // Reruns the import-time rotation choice against the current grid
+  const reoptimizeRotation = () => {
+    setPages(prev => prev.map(p => ({ ...p, rotation: getBestRotation(p, layout) })));
+  };
+
   const toggleSelectAll = () => {
       const allSelected = pages.every(p => p.isSelected);
       setPages(prev => prev.map(p => ({ ...p, isSelected: !allSelected })));
@@ -403,18 +504,51 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
       }));
   };
 
-  const toggleSelect = (pageId: string) => {
+  // Shift-click extends from the last clicked checkbox, giving the whole range the clicked page's new state
+  const selectionAnchorRef = useRef<string | null>(null);
+  const toggleSelect = (pageId: string, extendRange: boolean) => {
+    const anchorId = selectionAnchorRef.current;
+    selectionAnchorRef.current = pageId;
+    const target = pages.find(p => p.id === pageId);
+    if (extendRange && anchorId && anchorId !== pageId && target) {
+        setPages(prev => selectBetween(prev, anchorId, pageId, !target.isSelected));
+        return;
+    }
     setPages(prev => prev.map(p => p.id === pageId ? { ...p, isSelected: !p.isSelected } : p));
   };
 
-  const handleDoodleSave = (dataUrl: string) => {
+  const handleDoodleSave = (strokes: DoodleStroke[], shapes: DoodleShape[]) => {
       if (editingPage) {
-          setPages(prev => prev.map(p => p.id === editingPage.id ? { ...p, drawingDataUrl: dataUrl } : p));
+          setPages(prev => prev.map(p => p.id === editingPage.id ? { ...p, doodles: strokes, shapes } : p));
       }
   };
 
-  const handleApplyDoodleToAll = (dataUrl: string) => {
-      setPages(prev => prev.map(p => ({ ...p, drawingDataUrl: dataUrl })));
+  const handleApplyDoodleToAll = (strokes: DoodleStroke[], shapes: DoodleShape[]) => {
+      setPages(prev => prev.map(p => ({ ...p, doodles: strokes, shapes })));
+  };
+
+  const deselectBlankPages = () => {
+      setPages(prev => prev.map(p => p.isSelected && isBlankPage(p, blankThreshold) ? { ...p, isSelected: false } : p));
+  };
+
+  // --- Slide Builds ---
+  // Consecutive near-identical pages; the last one of each run is the most complete
+  const duplicateGroups = findNearDuplicateGroups(pages);
+  const deckPositions = Object.fromEntries(pages.map((p, i) => [p.id, i + 1]));
+
+  const keepLastOfGroups = (groups: PageItem[][]) => {
+      const earlierSteps = new Set(groups.flatMap(g => g.slice(0, -1).map(p => p.id)));
+      const lastSteps = new Set(groups.map(g => g[g.length - 1].id));
+      setPages(prev => prev.map(p => {
+          if (earlierSteps.has(p.id) && p.isSelected) return { ...p, isSelected: false };
+          if (lastSteps.has(p.id) && !p.isSelected) return { ...p, isSelected: true };
+          return p;
+      }));
+  };
+
+  const keepAllOfGroup = (group: PageItem[]) => {
+      const ids = new Set(group.map(p => p.id));
+      setPages(prev => prev.map(p => ids.has(p.id) && !p.isSelected ? { ...p, isSelected: true } : p));
   };
 
   // --- DnD Handlers ---
@@ -440,23 +574,80 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
   // the user sees visual pages. 
   // Dragging from Page 1 Slot 4 to Page 2 Slot 1 updates the global list.
   
-  // NOTE: For visual performance, we only render `displayCount` pages.
-  // BUT `SortableContext` needs the IDs of everything rendered. 
-  // The `chunks` logic is purely for visual A4 boundaries.
-  
-  const selectedPages = pages; // We show ALL pages in the grid now (faded if unselected) for reordering context
+  // NOTE: For visual performance, thumbnails only render for sheets near the viewport
+  // (see the IntersectionObserver below); other cards show a placeholder.
+  // The `chunks` logic is purely for visual sheet boundaries.
   
-  const chunks = [];
-  for (let i = 0; i < selectedPages.length; i += layout.nUp) {
-    chunks.push(selectedPages.slice(i, i + layout.nUp));
-  }
+  const activePages = pages.filter(p => p.isSelected);
+  const isBooklet = layout.imposition === 'booklet';
+
+  // Grid mode shows ALL pages (faded if unselected) for reordering context.
+  // Booklet mode shows the imposed spreads, which only make sense for the pages being printed.
+  const chunks = planSheets(isBooklet ? activePages : pages, layout);
   
-  const visibleChunks = chunks.slice(0, displayCount);
   const totalOriginalPages = pages.length;
-  const activePagesCount = pages.filter(p => p.isSelected).length;
-  const pagesToPrint = Math.ceil(activePagesCount / layout.nUp);
+  const printedPlan = isBooklet ? chunks : planSheets(activePages, layout);
+  const printedSides = selectDuplexSides(printedPlan, layout).length;
+  // Two-sided output puts a front and a back on every sheet; a single pass only covers one of them
+  const isSinglePass = layout.duplex === 'odd' || layout.duplex === 'even';
+  const pagesToPrint = isSinglePass ? printedSides : countPhysicalSheets(printedSides, layout);
   const savingsPercent = Math.round(((totalOriginalPages - pagesToPrint) / totalOriginalPages) * 100);
 
+  // --- Lazy Thumbnails ---
+  // One observer tracks which sheets are near the viewport; their pages get thumbnails.
+  const sheetObserverRef = useRef<IntersectionObserver | null>(null);
+  const observeSheet = (element: HTMLDivElement | null) => {
+      if (element) sheetObserverRef.current?.observe(element);
+  };
+
+  useEffect(() => {
+      const observer = new IntersectionObserver((entries) => {
+          setVisibleSheets(prev => {
+              const next = new Set(prev);
+              for (const entry of entries) {
+                  const index = Number((entry.target as HTMLElement).dataset.sheetIndex);
+                  if (entry.isIntersecting) next.add(index); else next.delete(index);
+              }
+              return [...next];
+          });
+      }, { rootMargin: '600px 0px' });
+      sheetObserverRef.current = observer;
+      document.querySelectorAll<HTMLElement>('[data-sheet-index]').forEach(el => observer.observe(el));
+      return () => observer.disconnect();
+  }, []);
+
+  // Reordering or a new layout changes what visible sheets contain, so ask again on every change
+  useEffect(() => {
+      const visiblePages = visibleSheets.flatMap(i => chunks[i] ?? []).filter((p): p is PageItem => !!p);
+      onRequestThumbnails(visiblePages);
+  });
+
+  // Sheet preview geometry comes from the same cells the exporter uses, as percentages of the sheet
+  const sheetSize = getSheetSize(layout);
+  const cells = getSheetCells(layout);
+  const pageLabels = getPageNumberLabels(activePages, layout.pageNumbers);
+
+  // Header and footer previews describe the side the exporter prints, numbered by sheet of
+  // paper like the PDF. Grid sheets also show deselected pages, so they follow the side their
+  // first printed page lands on; booklet previews are the printed sides themselves.
+  const totalPrintedSheets = countPhysicalSheets(printedPlan.length, layout);
+  const printedSideOfPage = new Map<string, { slots: (PageItem | null)[]; sheetNumber: number }>();
+  printedPlan.forEach((slots, i) => {
+      const side = { slots, sheetNumber: getSheetNumber(i, layout) };
+      for (const page of slots) if (page) printedSideOfPage.set(page.id, side);
+  });
+  const getPrintedSide = (chunk: (PageItem | null)[], sheetIndex: number) => {
+      if (isBooklet) return { slots: chunk, sheetNumber: getSheetNumber(sheetIndex, layout) };
+      const firstPrinted = chunk.find(p => p?.isSelected);
+      return firstPrinted ? printedSideOfPage.get(firstPrinted.id) ?? null : null;
+  };
+  const cellStyles: React.CSSProperties[] = cells.map(cell => ({
+      left: `${cell.x / sheetSize.width * 100}%`,
+      top: `${(sheetSize.height - cell.y - cell.height) / sheetSize.height * 100}%`,
+      width: `${cell.width / sheetSize.width * 100}%`,
+      height: `${cell.height / sheetSize.height * 100}%`,
+  }));
+
   return (
     <div className="w-full flex flex-col items-center animate-fade-in relative">
       
@@ -473,10 +664,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
                          </div>
                          <p className="text-sm text-gray-500">
                              <span className="font-bold text-gray-900 dark:text-white">{pagesToPrint}</span> Sheets total
+                             {layout.duplex === 'odd' && ' · fronts pass'}
+                             {layout.duplex === 'even' && ' · backs pass'}
+                             {(layout.duplex === 'both' || isBooklet) && ' · double-sided'}
                          </p>
                      </div>
                      
                      <div className="flex items-center gap-3">
+                         {historyButtons}
                          <button 
                              onClick={() => setIsCustomizing(true)}
                              className="text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-zinc-800 px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
@@ -484,12 +679,56 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
                              <Sliders size={16} /> Customize
                          </button>
                          <button 
-                             onClick={handleDownload}
+                             onClick={handleSaveProject}
+                             className="text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-zinc-800 px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
+                             title="Save the PDFs and all your edits as one file to continue later or share"
+                         >
+                             <FolderDown size={16} /> Save Project
+                         </button>
+                         {isGenerating && (
+                             <button
+                                 onClick={cancelDownload}
+                                 className="text-gray-500 hover:text-red-500 px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-1 transition-colors"
+                             >
+                                 <X size={14} /> Cancel
+                             </button>
+                         )}
+                         <div className="flex items-center border border-gray-200 dark:border-zinc-700 rounded-lg text-xs font-bold text-gray-600 dark:text-gray-300">
+                             <select
+                                 value={imageExport.format}
+                                 onChange={(e) => setImageExport(prev => ({ ...prev, format: e.target.value as SheetImageOptions['format'] }))}
+                                 className="bg-transparent pl-2 py-2 outline-none uppercase"
+                                 title="Image format"
+                             >
+                                 <option value="png">PNG</option>
+                                 <option value="jpeg">JPEG</option>
+                             </select>
+                             <select
+                                 value={imageExport.dpi}
+                                 onChange={(e) => setImageExport(prev => ({ ...prev, dpi: Number(e.target.value) }))}
+                                 className="bg-transparent px-1 py-2 outline-none"
+                                 title="Resolution"
+                             >
+                                 {[72, 150, 200, 300].map(dpi => <option key={dpi} value={dpi}>{dpi} dpi</option>)}
+                             </select>
+                             <button
+                                 onClick={() => handleDownload(imageExport)}
+                                 disabled={isGenerating}
+                                 className="hover:bg-gray-100 dark:hover:bg-zinc-800 px-3 py-2 rounded-r-lg flex items-center gap-1 transition-colors disabled:opacity-50"
+                                 title="Download every sheet as an image, bundled in a ZIP"
+                             >
+                                 <Images size={16} /> Images
+                             </button>
+                         </div>
+                         <button 
+                             onClick={() => handleDownload()}
                              disabled={isGenerating}
                              className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg text-sm font-bold shadow-lg shadow-indigo-200 dark:shadow-none flex items-center gap-2 transition-transform active:scale-95"
                          >
                              {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
-                             {isGenerating ? 'Processing...' : 'Download PDF'}
+                             {isGenerating
+                                 ? exportProgress ? `Rendering ${exportProgress.done}/${exportProgress.total}` : 'Processing...'
+                                 : 'Download PDF'}
                          </button>
                      </div>
                  </div>
@@ -497,23 +736,137 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
                 <div className="animate-slide-up space-y-6 pb-2">
                     <div className="flex justify-between items-center">
                         <h3 className="font-bold text-lg flex items-center gap-2 text-gray-800 dark:text-white"><Settings size={18} /> Studio Controls</h3>
-                        <button onClick={() => setIsCustomizing(false)} className="text-xs font-bold bg-gray-900 text-white dark:bg-white dark:text-black px-4 py-1.5 rounded-full hover:opacity-80">
-                            Done
-                        </button>
+                        <div className="flex items-center gap-3">
+                            {historyButtons}
+                            <button onClick={() => setIsCustomizing(false)} className="text-xs font-bold bg-gray-900 text-white dark:bg-white dark:text-black px-4 py-1.5 rounded-full hover:opacity-80">
+                                Done
+                            </button>
+                        </div>
                     </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-8">
                         {/* Layout */}
                         <div>
                             <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3 block">Layout Grid</label>
+                            <div className="flex gap-1 mb-2">
+                                {(Object.keys(IMPOSITION_ICONS) as Imposition[]).map(mode => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setLayout(prev => ({
+                                            ...prev,
+                                            imposition: mode,
+                                            // Handouts classically stack three pages with notes beside them
+                                            ...(mode === 'handout' && prev.imposition !== 'handout' ? { rows: 3, cols: 1 } : {}),
+                                        }))}
+                                        className={`flex-1 py-1 rounded-md text-xs font-bold border capitalize flex items-center justify-center gap-1 ${layout.imposition === mode ? 'bg-gray-900 text-white border-gray-900 dark:bg-white dark:text-black' : 'border-gray-200 dark:border-zinc-700 text-gray-600 dark:text-gray-400'}`}
+                                    >
+                                        {IMPOSITION_ICONS[mode]} {mode}
+                                    </button>
+                                ))}
+                            </div>
+                            {isBooklet ? (
+                                <label className="flex items-center justify-between gap-2 text-[10px] font-bold text-gray-500 uppercase bg-gray-100 dark:bg-zinc-800 px-2 py-1.5 rounded-md">
+                                    <span>Signature</span>
+                                    <select
+                                        value={layout.bookletSignatureSheets}
+                                        onChange={(e) => setLayout(prev => ({ ...prev, bookletSignatureSheets: Number(e.target.value) }))}
+                                        className="bg-transparent text-gray-900 dark:text-white outline-none"
+                                        title="Sheets folded together per booklet signature"
+                                    >
+                                        <option value={0}>Single booklet</option>
+                                        {[1, 2, 3, 4, 5, 6, 8, 10].map(n => <option key={n} value={n}>{n} sheets ({n * 4} pages)</option>)}
+                                    </select>
+                                </label>
+                            ) : (
+                                <>
+                                    <div className="flex gap-1">
+                                        {GRID_PRESETS.map(preset => (
+                                            <button
+                                                key={preset.label}
+                                                onClick={() => setLayout(prev => ({ ...prev, rows: preset.rows, cols: preset.cols }))}
+                                                className={`flex-1 py-2 rounded-md text-sm font-bold border ${layout.rows === preset.rows && layout.cols === preset.cols ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-gray-200 dark:border-zinc-700 hover:bg-gray-50 dark:hover:bg-zinc-800'}`}
+                                                title={`${preset.rows} rows × ${preset.cols} columns`}
+                                            >
+                                                {preset.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <div className="flex gap-1 mt-2 text-[10px] font-bold text-gray-500 uppercase">
+                                        <GridSizeSelect label="Rows" value={layout.rows} onChange={rows => setLayout(prev => ({ ...prev, rows }))} />
+                                        <GridSizeSelect label="Cols" value={layout.cols} onChange={cols => setLayout(prev => ({ ...prev, cols }))} />
+                                        <select
+                                            value={layout.cellOrder}
+                                            onChange={(e) => setLayout(prev => ({ ...prev, cellOrder: e.target.value as CellOrder }))}
+                                            className="flex-1 bg-gray-100 dark:bg-zinc-800 px-2 py-1 rounded-md outline-none"
+                                            title="Reading order"
+                                        >
+                                            <option value="row-major">Row ➜</option>
+                                            <option value="column-major">Column ↓</option>
+                                            <option value="right-to-left">Row ←</option>
+                                        </select>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+
+                        {/* Paper */}
+                        <div>
+                            <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3 block">Paper</label>
                             <div className="flex gap-1">
-                                {[1, 2, 4, 6, 8].map(n => (
+                                <select
+                                    value={layout.paper.size}
+                                    onChange={(e) => updatePaper('size', e.target.value as PaperSize)}
+                                    className="flex-1 py-2 px-2 rounded-md text-sm font-bold border border-gray-200 dark:border-zinc-700 bg-transparent dark:bg-zinc-900"
+                                >
+                                    {Object.keys(PAPER_SIZES).map(size => <option key={size} value={size}>{size}</option>)}
+                                    <option value="custom">Custom</option>
+                                </select>
+                                {(['portrait', 'landscape'] as const).map(orientation => (
                                     <button
-                                        key={n}
-                                        onClick={() => setLayout(prev => ({ ...prev, nUp: n as any }))}
-                                        className={`flex-1 py-2 rounded-md text-sm font-bold border ${layout.nUp === n ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-gray-200 dark:border-zinc-700 hover:bg-gray-50 dark:hover:bg-zinc-800'}`}
+                                        key={orientation}
+                                        onClick={() => updatePaper('orientation', orientation)}
+                                        className={`px-3 py-2 rounded-md border ${layout.paper.orientation === orientation ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-gray-200 dark:border-zinc-700 hover:bg-gray-50 dark:hover:bg-zinc-800'}`}
+                                        title={orientation === 'portrait' ? 'Portrait' : 'Landscape'}
                                     >
-                                        {n}
+                                        {orientation === 'portrait' ? <RectangleVertical size={14} /> : <RectangleHorizontal size={14} />}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-2 gap-2 mt-2 text-[10px] font-bold text-gray-500 uppercase">
+                                {layout.paper.size === 'custom' && (
+                                    <>
+                                        <PaperInput label="W mm" value={layout.paper.customWidthMm} min={50} onChange={v => updatePaper('customWidthMm', v)} />
+                                        <PaperInput label="H mm" value={layout.paper.customHeightMm} min={50} onChange={v => updatePaper('customHeightMm', v)} />
+                                    </>
+                                )}
+                                <PaperInput label="Margin" value={layout.paper.marginMm} min={0} onChange={v => updatePaper('marginMm', v)} />
+                                <PaperInput label="Gutter" value={layout.paper.gutterMm} min={0} onChange={v => updatePaper('gutterMm', v)} />
+                            </div>
+                        </div>
+
+                        {/* Duplex */}
+                        <div>
+                            <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3 block">Duplex</label>
+                            <select
+                                value={layout.duplex}
+                                onChange={(e) => setLayout(prev => ({ ...prev, duplex: e.target.value as DuplexMode }))}
+                                className="w-full py-2 px-2 rounded-md text-sm font-bold border border-gray-200 dark:border-zinc-700 bg-transparent dark:bg-zinc-900"
+                            >
+                                <option value="off">{isBooklet ? 'Both sides (booklet)' : 'Single-sided'}</option>
+                                <option value="both">Both sides</option>
+                                <option value="odd">Odd sheets only (fronts)</option>
+                                <option value="even">Even sheets only (backs, reversed)</option>
+                            </select>
+                            <div className="flex gap-1 mt-2">
+                                {(['long-edge', 'short-edge'] as const).map(flip => (
+                                    <button
+                                        key={flip}
+                                        onClick={() => setLayout(prev => ({ ...prev, duplexFlip: flip }))}
+                                        disabled={layout.duplex === 'off' && !isBooklet}
+                                        className={`flex-1 py-1 rounded-md text-xs font-bold border capitalize disabled:opacity-40 ${layout.duplexFlip === flip ? 'bg-gray-900 text-white border-gray-900 dark:bg-white dark:text-black' : 'border-gray-200 dark:border-zinc-700 text-gray-600 dark:text-gray-400'}`}
+                                        title={flip === 'short-edge' ? 'Back sides are pre-rotated 180° for flipping over the short edge' : 'Flip over the long edge'}
+                                    >
+                                        {flip.replace('-', ' ')}
                                     </button>
                                 ))}
                             </div>
@@ -522,19 +875,39 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
                         {/* Toggles */}
                         <div>
                             <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3 block">Modes</label>
+                            <div className="flex bg-gray-100 dark:bg-zinc-800 p-0.5 rounded-md mb-2 text-[10px] font-bold uppercase">
+                                {(['all', 'selected'] as const).map(scope => (
+                                    <button
+                                        key={scope}
+                                        onClick={() => setFilterScope(scope)}
+                                        className={`flex-1 py-1 rounded ${filterScope === scope ? 'bg-white dark:bg-zinc-700 shadow text-indigo-600' : 'text-gray-500'}`}
+                                    >
+                                        {scope === 'all' ? 'All pages' : 'Selected'}
+                                    </button>
+                                ))}
+                            </div>
                             <div className="flex gap-2">
                                 <button 
-                                    onClick={() => updateGlobalFilter('invert', !firstPage.filters.invert)}
-                                    className={`flex-1 py-2 rounded-md text-sm font-medium border flex items-center justify-center gap-2 ${firstPage.filters.invert ? 'bg-gray-900 text-white border-gray-900 dark:bg-white dark:text-black' : 'border-gray-200 dark:border-zinc-700 text-gray-600 dark:text-gray-400'}`}
+                                    onClick={() => updateGlobalFilter('invert', invertState.mixed || !invertState.value)}
+                                    className={`flex-1 py-2 rounded-md text-sm font-medium border flex items-center justify-center gap-2 ${invertState.mixed ? MIXED_TOGGLE_CLASS : invertState.value ? 'bg-gray-900 text-white border-gray-900 dark:bg-white dark:text-black' : 'border-gray-200 dark:border-zinc-700 text-gray-600 dark:text-gray-400'}`}
+                                    title={invertState.mixed ? 'Pages disagree - click to invert all of them' : undefined}
                                 >
-                                    {firstPage.filters.invert ? <Moon size={14} /> : <Sun size={14} />} Invert
+                                    {invertState.value && !invertState.mixed ? <Moon size={14} /> : <Sun size={14} />} Invert
                                 </button>
                                 <button 
-                                    onClick={() => updateGlobalFilter('grayscale', !firstPage.filters.grayscale)}
-                                    className={`flex-1 py-2 rounded-md text-sm font-medium border flex items-center justify-center gap-2 ${firstPage.filters.grayscale ? 'bg-gray-500 text-white border-gray-500' : 'border-gray-200 dark:border-zinc-700 text-gray-600 dark:text-gray-400'}`}
+                                    onClick={() => updateGlobalFilter('grayscale', grayscaleState.mixed || !grayscaleState.value)}
+                                    className={`flex-1 py-2 rounded-md text-sm font-medium border flex items-center justify-center gap-2 ${grayscaleState.mixed ? MIXED_TOGGLE_CLASS : grayscaleState.value ? 'bg-gray-500 text-white border-gray-500' : 'border-gray-200 dark:border-zinc-700 text-gray-600 dark:text-gray-400'}`}
+                                    title={grayscaleState.mixed ? 'Pages disagree - click to make all of them B&W' : undefined}
                                 >
                                     B&W
                                 </button>
+                                <button 
+                                    onClick={() => setLayout(prev => ({ ...prev, vectorOutput: !prev.vectorOutput }))}
+                                    className={`flex-1 py-2 rounded-md text-sm font-medium border flex items-center justify-center gap-2 ${layout.vectorOutput ? 'bg-emerald-600 text-white border-emerald-600' : 'border-gray-200 dark:border-zinc-700 text-gray-600 dark:text-gray-400'}`}
+                                    title="Keep pages without filters as sharp vector pages; only filters need rasterizing"
+                                >
+                                    <Layers size={14} /> Vector
+                                </button>
                             </div>
                         </div>
 
@@ -543,15 +916,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
                             <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3 block">Batch Actions</label>
                             <div className="flex gap-2 flex-wrap">
                                 <button onClick={() => rotateAll(90)} className="px-3 py-2 border dark:border-zinc-700 rounded-lg hover:bg-gray-100 dark:hover:bg-zinc-800" title="Rotate All +90"><RotateCw size={14} /></button>
+                                <button onClick={reoptimizeRotation} className="px-3 py-2 border dark:border-zinc-700 rounded-lg hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs font-bold flex items-center gap-1" title="Turn every page to fill its cell best for the current layout">
+                                    <Maximize size={14} /> Re-optimize rotation
+                                </button>
                                 <button onClick={toggleSelectAll} className="px-3 py-2 border dark:border-zinc-700 rounded-lg hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs font-bold flex items-center gap-1">
                                     <CheckSquare size={14} /> Toggle All
                                 </button>
-                                <button 
-                                    onClick={() => setLayout(prev => ({ ...prev, showPageNumbers: !prev.showPageNumbers }))}
-                                    className={`px-3 py-2 border rounded-lg text-xs font-bold flex items-center gap-1 ${layout.showPageNumbers ? 'bg-indigo-100 text-indigo-700 border-indigo-200' : 'dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800'}`}
-                                >
-                                    <Hash size={14} /> {layout.showPageNumbers ? 'Nums On' : 'Nums Off'}
-                                </button>
                             </div>
                         </div>
 
@@ -561,29 +931,74 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
                                  <Sun size={14} className="text-gray-400" />
                                  <input 
                                     type="range" min="0" max="100" 
-                                    value={firstPage.filters.whiteness} 
+                                    value={whitenessState.value} 
                                     onChange={(e) => updateGlobalFilter('whiteness', Number(e.target.value))}
-                                    className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
-                                    title="Brightness"
+                                    className={`w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 ${whitenessState.mixed ? 'opacity-40' : ''}`}
+                                    title={whitenessState.mixed ? 'Brightness (mixed)' : 'Brightness'}
                                  />
+                                 {whitenessState.mixed && <span className="text-[9px] font-bold text-indigo-500 uppercase">Mixed</span>}
                              </div>
                              <div className="flex items-center gap-3">
                                  <div className="w-3.5 h-3.5 rounded-full border-2 border-gray-400" />
                                  <input 
                                     type="range" min="0" max="100" 
-                                    value={firstPage.filters.blackness} 
+                                    value={blacknessState.value} 
                                     onChange={(e) => updateGlobalFilter('blackness', Number(e.target.value))}
-                                    className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
-                                    title="Contrast"
+                                    className={`w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 ${blacknessState.mixed ? 'opacity-40' : ''}`}
+                                    title={blacknessState.mixed ? 'Contrast (mixed)' : 'Contrast'}
                                  />
+                                 {blacknessState.mixed && <span className="text-[9px] font-bold text-indigo-500 uppercase">Mixed</span>}
                              </div>
                         </div>
+
+                        {layout.imposition === 'handout' && <HandoutSettings settings={layout.handout} onChange={updateHandout} />}
+
+                        <PageNumberSettings settings={layout.pageNumbers} onChange={updatePageNumbers} />
+
+                        <StampSettings
+                            stamps={layout.stamps}
+                            watermark={layout.watermark}
+                            onStampsChange={updateStamps}
+                            onWatermarkChange={updateWatermark}
+                        />
                     </div>
                 </div>
             )}
          </div>
       </div>
 
+      {/* Export Summary */}
+      {exportSummary && (
+          <div className="w-full max-w-6xl mx-auto px-4 pt-4">
+              <div className="flex items-center gap-3 text-xs bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300 rounded-xl px-3 py-2">
+                  <CheckCircle size={14} />
+                  <span>
+                      Downloaded <strong>{exportSummary.pages}</strong> pages on <strong>{exportSummary.sheets}</strong> sheets
+                      {exportSummary.blankSkipped > 0 && <> · skipped <strong>{exportSummary.blankSkipped}</strong> blank page{exportSummary.blankSkipped === 1 ? '' : 's'}</>}
+                  </span>
+                  <button onClick={() => setExportSummary(null)} className="ml-auto p-1 hover:bg-green-100 dark:hover:bg-green-900/40 rounded-md"><X size={12} /></button>
+              </div>
+          </div>
+      )}
+
+      <SelectionBar pages={pages} files={files} setPages={setPages} />
+      <DuplicateGroups
+        groups={duplicateGroups}
+        deckPositions={deckPositions}
+        thumbnails={thumbnails}
+        onRequestThumbnails={onRequestThumbnails}
+        analyzedCount={pages.filter(p => !needsAnalysis(p)).length}
+        totalCount={pages.length}
+        onKeepLast={keepLastOfGroups}
+        onKeepAll={keepAllOfGroup}
+      />
+      <BlankPages
+        pages={pages}
+        threshold={blankThreshold}
+        onThresholdChange={setBlankThreshold}
+        onDeselect={deselectBlankPages}
+      />
+
       {/* 2. Main Grid View (Drag and Drop Context) */}
       <DndContext 
         sensors={sensors} 
@@ -595,56 +1010,59 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
             
             <SortableContext items={pages.map(p => p.id)} strategy={rectSortingStrategy}>
                 <div className="flex flex-wrap justify-center gap-8 md:gap-12 w-full">
-                    {visibleChunks.map((chunk, sheetIndex) => (
-                        <div key={sheetIndex} className="relative group">
+                    {chunks.map((chunk, sheetIndex) => (
+                        <div key={sheetIndex} ref={observeSheet} data-sheet-index={sheetIndex} className="relative group">
                             {/* Sheet Number */}
-                            <div className="absolute -left-10 top-0 text-[10px] font-mono text-gray-300 font-bold hidden sm:block">#{sheetIndex + 1}</div>
+                            <div className="absolute -left-10 top-0 text-[10px] font-mono text-gray-300 font-bold hidden sm:block">
+                                {isBooklet ? <>#{Math.floor(sheetIndex / 2) + 1}<br />{sheetIndex % 2 === 0 ? 'front' : 'back'}</> : `#${sheetIndex + 1}`}
+                            </div>
 
                             {/* The Paper */}
-                            <div className="w-[90vw] sm:w-[400px] aspect-[1/1.414] bg-white shadow-xl rounded-sm p-4 sm:p-6 flex flex-wrap content-start ring-1 ring-gray-200 dark:ring-zinc-800">
-                                {Array.from({ length: layout.nUp }).map((_, i) => {
-                                    // Grid Math
-                                    let widthClass = 'w-full';
-                                    let heightClass = 'h-full';
-                                    if (layout.nUp === 2) heightClass = 'h-1/2';
-                                    if (layout.nUp === 4) { widthClass = 'w-1/2'; heightClass = 'h-1/2'; }
-                                    if (layout.nUp === 6) { widthClass = 'w-1/2'; heightClass = 'h-1/3'; }
-                                    if (layout.nUp === 8) { widthClass = 'w-1/2'; heightClass = 'h-1/4'; }
-
+                            <div className="relative w-[90vw] sm:w-[400px] bg-white shadow-xl rounded-sm ring-1 ring-gray-200 dark:ring-zinc-800" style={{ aspectRatio: `${sheetSize.width} / ${sheetSize.height}` }}>
+                                <HandoutNotes layout={layout} sheetSize={sheetSize} slots={chunk} />
+                                {cellStyles.map((cellStyle, i) => {
                                     const pageItem = chunk[i];
 
                                     return (
-                                        <div key={i} className={`${widthClass} ${heightClass} p-1`}>
+                                        <div key={i} className="absolute" style={cellStyle}>
                                             {pageItem ? (
                                                 <SortableSlideItem 
                                                     pageItem={pageItem} 
+                                                    thumbnailUrl={thumbnails[pageItem.id]}
                                                     layout={layout}
+                                                    cell={cells[i]}
+                                                    renderMode={getPageRenderMode(pageItem, layout)}
+                                                    isBlank={isBlankPage(pageItem, blankThreshold)}
                                                     onToggleSelect={toggleSelect}
                                                     onRotate={rotatePage}
                                                     onEdit={setEditingPage}
+                                                    onEditFilters={setFilterPageId}
+                                                    onToggleInvert={(id) => updatePageFilter(id, 'invert', !pageItem.filters.invert)}
                                                 />
                                             ) : (
-                                                <div className="w-full h-full border border-dashed border-gray-200" />
+                                                <div className="w-full h-full border border-dashed border-gray-200 flex items-center justify-center text-[10px] text-gray-300 font-bold uppercase">
+                                                    {isBooklet && 'Blank'}
+                                                </div>
                                             )}
                                         </div>
                                     )
                                 })}
+                                <SheetStampOverlay
+                                    layout={layout}
+                                    sheetSize={sheetSize}
+                                    slots={chunk}
+                                    printedSide={getPrintedSide(chunk, sheetIndex)}
+                                    cells={cells}
+                                    pageLabels={pageLabels}
+                                    files={files}
+                                    totalSheets={totalPrintedSheets}
+                                />
                             </div>
                         </div>
                     ))}
                 </div>
             </SortableContext>
 
-            {chunks.length > displayCount && (
-                <button 
-                    onClick={() => setDisplayCount(prev => prev + 20)}
-                    className="mt-12 flex flex-col items-center gap-2 text-gray-400 hover:text-indigo-600 transition-colors"
-                >
-                    <span className="text-sm font-bold">Show More Pages</span>
-                    <ChevronDown className="animate-bounce" />
-                </button>
-            )}
-
             <div className="mt-20 flex gap-4">
                 <button onClick={onReset} className="text-gray-400 hover:text-red-500 text-sm flex items-center gap-2 px-4 py-2">
                     <RefreshCcw size={14} /> Reset Project
@@ -664,10 +1082,23 @@ export const Dashboard: React.FC<DashboardProps> = ({ pages, setPages, files, la
 
       </DndContext>
 
+      {/* Per-page Filter Editor */}
+      {filterPage && (
+          <FilterEditor
+            page={filterPage}
+            thumbnailUrl={thumbnails[filterPage.id]}
+            onChange={(key, value) => updatePageFilter(filterPage.id, key, value)}
+            onApplySuggestion={() => applyAutoFilters(filterPage.id)}
+            onFollowGlobal={() => clearFilterOverrides(filterPage.id)}
+            onClose={() => setFilterPageId(null)}
+          />
+      )}
+
       {/* Doodle Modal Overlay */}
       {editingPage && (
           <DoodleModal 
             page={editingPage} 
+            thumbnailUrl={thumbnails[editingPage.id]}
             onClose={() => setEditingPage(null)} 
             onSave={handleDoodleSave}
             onApplyToAll={handleApplyDoodleToAll}
@@ -0,0 +1,72 @@
+import React from 'react';
+import { DoodleShape, DoodleStroke } from '../types';
+import {
+  DOODLE_TOOL_OPACITY, HIGHLIGHT_OPACITY, arrowToSvgPath, getShapeBox, getTextBaselines, strokeToSvgPath,
+} from '../services/doodleService';
+import { PDF_FONT_FAMILY } from '../services/stampService';
+
+interface DoodleLayerProps {
+  strokes: DoodleStroke[];
+  shapes?: DoodleShape[];
+  width: number; // Page size the strokes are laid out in (aspect ratio is what matters)
+  height: number;
+  className?: string;
+  preserveAspectRatio?: string;
+}
+
+const DoodleShapeView: React.FC<{ shape: DoodleShape; width: number; height: number }> = ({ shape, width, height }) => {
+  const box = getShapeBox(shape);
+  const rect = { x: box.x * width, y: box.y * height, width: box.width * width, height: box.height * height };
+  const lineWidth = shape.strokeWidth * width;
+
+  switch (shape.kind) {
+    case 'arrow':
+      return (
+        <path
+          d={arrowToSvgPath([shape.x * width, shape.y * height], [(shape.x + shape.width) * width, (shape.y + shape.height) * height], lineWidth)}
+          fill="none" stroke={shape.color} strokeWidth={lineWidth} strokeLinecap="round" strokeLinejoin="round"
+        />
+      );
+    case 'rect':
+      return <rect {...rect} fill="none" stroke={shape.color} strokeWidth={lineWidth} />;
+    case 'highlight':
+      return <rect {...rect} fill={shape.color} fillOpacity={HIGHLIGHT_OPACITY} />;
+    case 'ellipse':
+      return (
+        <ellipse
+          cx={rect.x + rect.width / 2} cy={rect.y + rect.height / 2} rx={rect.width / 2} ry={rect.height / 2}
+          fill="none" stroke={shape.color} strokeWidth={lineWidth}
+        />
+      );
+    case 'text': {
+      const fontSize = (shape.fontSize ?? 0) * width;
+      return (
+        <text fill={shape.color} fontSize={fontSize} fontFamily={PDF_FONT_FAMILY} style={{ whiteSpace: 'pre' }}>
+          {getTextBaselines(shape, fontSize).map(({ line, offset }, i) => (
+            <tspan key={i} x={rect.x} y={rect.y + offset}>{line}</tspan>
+          ))}
+        </text>
+      );
+    }
+  }
+};
+
+// Doodle strokes and shapes as an SVG overlay. With the default 'xMidYMid meet' it letterboxes
+// exactly like an object-contain image of the same page, so it can sit on top of the thumbnail.
+export const DoodleLayer: React.FC<DoodleLayerProps> = ({ strokes, shapes = [], width, height, className, preserveAspectRatio = 'xMidYMid meet' }) => (
+  <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio={preserveAspectRatio} className={className}>
+    {strokes.map(stroke => (
+      <path
+        key={stroke.id}
+        d={strokeToSvgPath(stroke, width, height)}
+        fill="none"
+        stroke={stroke.color}
+        strokeOpacity={DOODLE_TOOL_OPACITY[stroke.tool]}
+        strokeWidth={stroke.width * width}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    ))}
+    {shapes.map(shape => <DoodleShapeView key={shape.id} shape={shape} width={width} height={height} />)}
+  </svg>
+);
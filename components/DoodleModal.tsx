@@ -0,0 +1,536 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  X, Save, Pencil, Highlighter, Eraser, Copy, PenTool, Undo2, Redo2, Trash2,
+  MousePointer2, Type, ArrowUpRight, Square, Circle, SquareDashed,
+} from 'lucide-react';
+import { DoodleShape, DoodleShapeKind, DoodleStroke, PageItem } from '../types';
+import { toCssFilter } from '../services/pdfService';
+import { TEXT_LINE_HEIGHT, addStrokePoint, getShapeBox, shapeHitTest, strokeHitTest } from '../services/doodleService';
+import { PDF_FONT_FAMILY } from '../services/stampService';
+import { useHistory } from '../hooks/useHistory';
+import { DoodleLayer } from './DoodleLayer';
+
+type DoodleStudioTool = 'select' | 'pencil' | 'marker' | 'eraser' | DoodleShapeKind;
+
+// Corners of a box, or the two ends of an arrow
+type ShapeHandle = 'nw' | 'ne' | 'sw' | 'se' | 'start' | 'end';
+
+interface DoodleDrawing {
+    strokes: DoodleStroke[];
+    shapes: DoodleShape[];
+}
+
+interface ShapeDrag {
+    shapeId: string;
+    handle: ShapeHandle | 'move';
+    start: [number, number];
+    original: DoodleShape;
+    group: string;
+    isNew: boolean;
+}
+
+// Pencil width in thumbnail pixels; marker and eraser use the size slider
+const PENCIL_SIZE = 3;
+
+// How close (thumbnail pixels) a click has to land to pick a shape or one of its handles
+const PICK_RADIUS = 8;
+
+// Shapes placed with a click instead of a drag get this width (fraction of the page)
+const DEFAULT_SHAPE_SIZE = 0.15;
+
+const PRESET_COLORS = ['#000000', '#FFFFFF', '#EF4444', '#F59E0B', '#10B981', '#3B82F6', '#8B5CF6'];
+
+const DRAW_TOOLS: { tool: DoodleStudioTool; label: string; icon: React.ReactNode; title?: string }[] = [
+    { tool: 'select', label: 'select', icon: <MousePointer2 size={16} />, title: 'Move and resize shapes' },
+    { tool: 'pencil', label: 'pencil', icon: <Pencil size={16} /> },
+    { tool: 'marker', label: 'marker', icon: <Highlighter size={16} /> },
+    { tool: 'eraser', label: 'eraser', icon: <Eraser size={16} />, title: 'Removes whole strokes and shapes' },
+];
+
+const SHAPE_TOOLS: { tool: DoodleShapeKind; label: string; icon: React.ReactNode }[] = [
+    { tool: 'text', label: 'text', icon: <Type size={16} /> },
+    { tool: 'arrow', label: 'arrow', icon: <ArrowUpRight size={16} /> },
+    { tool: 'rect', label: 'box', icon: <Square size={16} /> },
+    { tool: 'ellipse', label: 'ellipse', icon: <Circle size={16} /> },
+    { tool: 'highlight', label: 'highlight', icon: <SquareDashed size={16} /> },
+];
+
+const getHandles = (shape: DoodleShape): { handle: ShapeHandle; point: [number, number] }[] => {
+    if (shape.kind === 'arrow') {
+        return [
+            { handle: 'start', point: [shape.x, shape.y] },
+            { handle: 'end', point: [shape.x + shape.width, shape.y + shape.height] },
+        ];
+    }
+    const { x, y, width, height } = getShapeBox(shape);
+    // Text scales from its corner; the box follows the text
+    if (shape.kind === 'text') return [{ handle: 'se', point: [x + width, y + height] }];
+    return [
+        { handle: 'nw', point: [x, y] },
+        { handle: 'ne', point: [x + width, y] },
+        { handle: 'sw', point: [x, y + height] },
+        { handle: 'se', point: [x + width, y + height] },
+    ];
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Sizes a text box to its text. Page size in thumbnail pixels turns fractions into font pixels.
+const fitTextBox = (shape: DoodleShape, pageWidth: number, pageHeight: number): DoodleShape => {
+    measureContext ??= document.createElement('canvas').getContext('2d')!;
+    const fontPx = (shape.fontSize ?? 0) * pageWidth;
+    measureContext.font = `${fontPx}px ${PDF_FONT_FAMILY}`;
+    const lines = (shape.text ?? '').split('\n');
+    const widest = Math.max(fontPx, ...lines.map(line => measureContext!.measureText(line).width));
+    return { ...shape, width: widest / pageWidth, height: (lines.length * TEXT_LINE_HEIGHT * fontPx) / pageHeight };
+};
+
+interface DoodleModalProps {
+    page: PageItem;
+    thumbnailUrl?: string;
+    onClose: () => void;
+    onSave: (strokes: DoodleStroke[], shapes: DoodleShape[]) => void;
+    onApplyToAll: (strokes: DoodleStroke[], shapes: DoodleShape[]) => void;
+}
+
+// Doodle Studio: strokes and shapes are kept as data, so they can be undone one by one, erased
+// as whole objects, moved later and exported sharply. Sizes are picked in thumbnail pixels and
+// stored relative to the page.
+export const DoodleModal: React.FC<DoodleModalProps> = ({ page, thumbnailUrl, onClose, onSave, onApplyToAll }) => {
+    const surfaceRef = useRef<HTMLDivElement>(null);
+    const drawing = useHistory<DoodleDrawing>({ strokes: page.doodles, shapes: page.shapes });
+    const [draft, setDraft] = useState<DoodleStroke | null>(null);
+    const [isErasing, setIsErasing] = useState(false);
+    const gestureRef = useRef(0);
+    const dragRef = useRef<ShapeDrag | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [tool, setTool] = useState<DoodleStudioTool>('pencil');
+    const [color, setColor] = useState('#000000');
+    const [markerSize, setMarkerSize] = useState(15);
+    const [lineSize, setLineSize] = useState(3);
+    const [fontSize, setFontSize] = useState(24);
+
+    const { strokes, shapes } = drawing.value;
+    const selectedShape = shapes.find(s => s.id === selectedId);
+    const aspect = page.height / page.width;
+
+    const updateShape = (id: string, update: (shape: DoodleShape) => DoodleShape, group: string) => {
+        drawing.set(d => ({ ...d, shapes: d.shapes.map(s => s.id === id ? update(s) : s) }), { group });
+    };
+
+    const deleteSelected = () => {
+        if (!selectedId) return;
+        drawing.set(d => ({ ...d, shapes: d.shapes.filter(s => s.id !== selectedId) }));
+        setSelectedId(null);
+    };
+
+    const { undo, redo } = drawing;
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // Typing in the text field keeps its own undo and delete keys
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+            if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId) {
+                e.preventDefault();
+                deleteSelected();
+            } else if (e.key === 'Escape') {
+                setSelectedId(null);
+            } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) redo(); else undo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    // Pointer position as fractions of the page
+    const getPagePoint = (e: React.PointerEvent): [number, number] => {
+        const rect = surfaceRef.current!.getBoundingClientRect();
+        const clamp = (v: number) => Math.min(1, Math.max(0, v));
+        return [clamp((e.clientX - rect.left) / rect.width), clamp((e.clientY - rect.top) / rect.height)];
+    };
+
+    // Removes every stroke and shape under the eraser; one drag is one undo step
+    const eraseAt = ([x, y]: [number, number]) => {
+        const radius = markerSize / 2 / page.width;
+        drawing.set(
+            prev => {
+                const keptStrokes = prev.strokes.filter(s => !strokeHitTest(s, x, y, radius, aspect));
+                const keptShapes = prev.shapes.filter(s => !shapeHitTest(s, x, y, radius, aspect));
+                if (keptStrokes.length === prev.strokes.length && keptShapes.length === prev.shapes.length) return prev;
+                return { strokes: keptStrokes, shapes: keptShapes };
+            },
+            { group: `erase-${gestureRef.current}` }
+        );
+    };
+
+    // The shape as it should be while `drag` has moved to `point`
+    const applyDrag = (drag: ShapeDrag, [px, py]: [number, number]): DoodleShape => {
+        const { original, handle } = drag;
+
+        if (handle === 'move') {
+            return { ...original, x: original.x + px - drag.start[0], y: original.y + py - drag.start[1] };
+        }
+        if (handle === 'start') {
+            return { ...original, x: px, y: py, width: original.x + original.width - px, height: original.y + original.height - py };
+        }
+        if (handle === 'end') {
+            return { ...original, width: px - original.x, height: py - original.y };
+        }
+        if (original.kind === 'text') {
+            const scale = Math.max(0.2, (py - original.y) / original.height);
+            return fitTextBox({ ...original, fontSize: (original.fontSize ?? 0) * scale }, page.width, page.height);
+        }
+
+        // The opposite corner stays put
+        const box = getShapeBox(original);
+        const fixedX = handle === 'nw' || handle === 'sw' ? box.x + box.width : box.x;
+        const fixedY = handle === 'nw' || handle === 'ne' ? box.y + box.height : box.y;
+        return {
+            ...original,
+            x: Math.min(fixedX, px),
+            y: Math.min(fixedY, py),
+            width: Math.abs(px - fixedX),
+            height: Math.abs(py - fixedY),
+        };
+    };
+
+    const startDrag = (shape: DoodleShape, handle: ShapeDrag['handle'], point: [number, number], isNew: boolean) => {
+        gestureRef.current++;
+        dragRef.current = { shapeId: shape.id, handle, start: point, original: shape, group: `shape-${gestureRef.current}`, isNew };
+    };
+
+    const selectShape = (shape: DoodleShape) => {
+        setSelectedId(shape.id);
+        setColor(shape.color);
+    };
+
+    const handleSelectPointerDown = (point: [number, number]) => {
+        const pickRadius = PICK_RADIUS / page.width;
+        const nearPoint = ([hx, hy]: [number, number]) => Math.hypot(hx - point[0], (hy - point[1]) * aspect) <= pickRadius;
+
+        const handle = selectedShape && getHandles(selectedShape).find(h => nearPoint(h.point));
+        if (selectedShape && handle) {
+            startDrag(selectedShape, handle.handle, point, false);
+            return;
+        }
+
+        // Topmost shape wins
+        const hit = [...shapes].reverse().find(s => shapeHitTest(s, point[0], point[1], pickRadius, aspect));
+        if (hit) {
+            selectShape(hit);
+            startDrag(hit, 'move', point, false);
+        } else {
+            setSelectedId(null);
+        }
+    };
+
+    const createShape = (kind: DoodleShapeKind, [x, y]: [number, number]) => {
+        const shape: DoodleShape = {
+            id: crypto.randomUUID(), kind, x, y, width: 0, height: 0, color, strokeWidth: lineSize / page.width,
+        };
+
+        if (kind === 'text') {
+            // Text is placed with a click and typed in the toolbar, which takes focus. Switching to
+            // select lets the next click move it rather than place another one.
+            const textShape = fitTextBox({ ...shape, text: 'Text', fontSize: fontSize / page.width }, page.width, page.height);
+            drawing.set(d => ({ ...d, shapes: [...d.shapes, textShape] }));
+            setSelectedId(textShape.id);
+            setTool('select');
+            return;
+        }
+
+        gestureRef.current++;
+        drawing.set(d => ({ ...d, shapes: [...d.shapes, shape] }), { group: `shape-${gestureRef.current}` });
+        setSelectedId(shape.id);
+        startDrag(shape, kind === 'arrow' ? 'end' : 'se', [x, y], true);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = getPagePoint(e);
+
+        if (tool === 'select') {
+            handleSelectPointerDown(point);
+            return;
+        }
+
+        setSelectedId(null);
+
+        if (tool === 'eraser') {
+            gestureRef.current++;
+            setIsErasing(true);
+            eraseAt(point);
+            return;
+        }
+
+        if (tool === 'pencil' || tool === 'marker') {
+            setDraft({
+                id: crypto.randomUUID(),
+                tool,
+                color,
+                width: (tool === 'pencil' ? PENCIL_SIZE : markerSize) / page.width,
+                points: addStrokePoint([], point[0], point[1]),
+            });
+            return;
+        }
+
+        createShape(tool, point);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (drag) {
+            const point = getPagePoint(e);
+            updateShape(drag.shapeId, () => applyDrag(drag, point), drag.group);
+        } else if (isErasing) {
+            eraseAt(getPagePoint(e));
+        } else if (draft) {
+            const [x, y] = getPagePoint(e);
+            setDraft(d => d && { ...d, points: addStrokePoint(d.points, x, y) });
+        }
+    };
+
+    const handlePointerUp = () => {
+        const drag = dragRef.current;
+        if (drag?.isNew) {
+            // A click without a drag still places a usable shape
+            updateShape(drag.shapeId, s => {
+                if (Math.abs(s.width) > 0.01 || Math.abs(s.height) > 0.01) return s;
+                return s.kind === 'arrow'
+                    ? { ...s, width: DEFAULT_SHAPE_SIZE, height: 0 }
+                    : { ...s, width: DEFAULT_SHAPE_SIZE, height: DEFAULT_SHAPE_SIZE / aspect };
+            }, drag.group);
+        }
+        dragRef.current = null;
+
+        if (draft) drawing.set(prev => ({ ...prev, strokes: [...prev.strokes, draft] }));
+        setDraft(null);
+        setIsErasing(false);
+    };
+
+    const handleColorChange = (value: string) => {
+        setColor(value);
+        if (selectedShape) updateShape(selectedShape.id, s => ({ ...s, color: value }), `color-${selectedShape.id}`);
+    };
+
+    const handleLineSizeChange = (value: number) => {
+        setLineSize(value);
+        if (selectedShape) updateShape(selectedShape.id, s => ({ ...s, strokeWidth: value / page.width }), `line-${selectedShape.id}`);
+    };
+
+    const handleFontSizeChange = (value: number) => {
+        setFontSize(value);
+        if (selectedShape) {
+            updateShape(selectedShape.id, s => fitTextBox({ ...s, fontSize: value / page.width }, page.width, page.height), `font-${selectedShape.id}`);
+        }
+    };
+
+    const handleTextChange = (value: string) => {
+        if (selectedShape) {
+            updateShape(selectedShape.id, s => fitTextBox({ ...s, text: value }, page.width, page.height), `text-${selectedShape.id}`);
+        }
+    };
+
+    // Text boxes left empty aren't worth keeping
+    const getResult = (): [DoodleStroke[], DoodleShape[]] => [strokes, shapes.filter(s => s.kind !== 'text' || s.text?.trim())];
+
+    const handleSave = () => {
+        onSave(...getResult());
+        onClose();
+    };
+
+    const handleApplyAll = () => {
+        if (confirm('This will overwrite any drawings on all other slides. Continue?')) {
+            onApplyToAll(...getResult());
+            onClose();
+        }
+    };
+
+    const activeKind = selectedShape?.kind ?? tool;
+    const showColors = tool !== 'eraser' && (tool !== 'select' || !!selectedShape);
+    const showLineSize = activeKind === 'arrow' || activeKind === 'rect' || activeKind === 'ellipse';
+    const visibleStrokes = draft ? [...strokes, draft] : strokes;
+    const handleSize = page.width * 0.025;
+    const toolButtonClass = (active: boolean) =>
+        `p-2 rounded-lg capitalize text-xs font-bold flex flex-col items-center gap-1 w-16 ${active ? 'bg-white dark:bg-zinc-700 shadow text-indigo-600' : 'text-gray-500 hover:bg-gray-200 dark:hover:bg-zinc-700'}`;
+    const toolbarButtonClass = 'p-2 rounded-lg text-gray-500 hover:bg-gray-200 dark:hover:bg-zinc-700 disabled:opacity-30 disabled:hover:bg-transparent';
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={(e) => e.stopPropagation()}>
+            <div className="bg-white dark:bg-[#1a1a1a] w-full max-w-5xl h-[90vh] rounded-3xl flex flex-col shadow-2xl overflow-hidden animate-fade-in">
+                <div className="p-4 border-b border-gray-200 dark:border-zinc-800 flex justify-between items-center bg-gray-50 dark:bg-zinc-900">
+                    <h3 className="font-bold text-lg dark:text-white flex items-center gap-2"><PenTool size={18} /> Doodle Studio</h3>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="p-2 hover:bg-gray-200 dark:hover:bg-zinc-800 rounded-lg text-gray-500"><X size={20} /></button>
+                         <button onClick={handleApplyAll} className="px-3 py-2 bg-gray-200 dark:bg-zinc-800 text-gray-700 dark:text-white rounded-lg font-medium flex items-center gap-2 hover:bg-gray-300 dark:hover:bg-zinc-700 text-xs sm:text-sm">
+                            <Copy size={16} /> Apply to All
+                        </button>
+                        <button onClick={handleSave} className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium flex items-center gap-2 hover:bg-indigo-700">
+                            <Save size={18} /> Save
+                        </button>
+                    </div>
+                </div>
+
+                <div className="p-4 border-b border-gray-200 dark:border-zinc-800 flex gap-4 items-center overflow-x-auto">
+                    <div className="flex bg-gray-100 dark:bg-zinc-800 p-1 rounded-xl">
+                        {DRAW_TOOLS.map(t => (
+                            <button key={t.tool} onClick={() => setTool(t.tool)} className={toolButtonClass(tool === t.tool)} title={t.title}>
+                                {t.icon}
+                                {t.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex bg-gray-100 dark:bg-zinc-800 p-1 rounded-xl">
+                        {SHAPE_TOOLS.map(t => (
+                            <button key={t.tool} onClick={() => setTool(t.tool)} className={toolButtonClass(tool === t.tool)}>
+                                {t.icon}
+                                {t.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex items-center gap-1 pl-4 border-l border-gray-200 dark:border-zinc-700">
+                        <button onClick={undo} disabled={!drawing.canUndo} className={toolbarButtonClass} title="Undo (Ctrl+Z)"><Undo2 size={18} /></button>
+                        <button onClick={redo} disabled={!drawing.canRedo} className={toolbarButtonClass} title="Redo (Ctrl+Shift+Z)"><Redo2 size={18} /></button>
+                        <button
+                            onClick={() => drawing.set({ strokes: [], shapes: [] })}
+                            disabled={strokes.length === 0 && shapes.length === 0}
+                            className={toolbarButtonClass}
+                            title="Clear everything"
+                        >
+                            <Trash2 size={18} />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-800 flex gap-4 items-center overflow-x-auto min-h-[3.5rem]">
+                    {(tool === 'marker' || tool === 'eraser') && (
+                        <div className="flex items-center gap-2 bg-gray-100 dark:bg-zinc-800 px-3 py-1.5 rounded-lg">
+                            <span className="text-[10px] font-bold text-gray-500 uppercase">Size</span>
+                            <input
+                                type="range"
+                                min="5" max="100"
+                                value={markerSize}
+                                onChange={(e) => setMarkerSize(Number(e.target.value))}
+                                className="w-20 h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                            />
+                        </div>
+                    )}
+
+                    {showLineSize && (
+                        <div className="flex items-center gap-2 bg-gray-100 dark:bg-zinc-800 px-3 py-1.5 rounded-lg">
+                            <span className="text-[10px] font-bold text-gray-500 uppercase">Line</span>
+                            <input
+                                type="range"
+                                min="1" max="20"
+                                value={selectedShape ? Math.round(selectedShape.strokeWidth * page.width) : lineSize}
+                                onChange={(e) => handleLineSizeChange(Number(e.target.value))}
+                                className="w-20 h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                            />
+                        </div>
+                    )}
+
+                    {activeKind === 'text' && (
+                        <div className="flex items-center gap-2 bg-gray-100 dark:bg-zinc-800 px-3 py-1.5 rounded-lg">
+                            <span className="text-[10px] font-bold text-gray-500 uppercase">Font</span>
+                            <input
+                                type="range"
+                                min="8" max="96"
+                                value={selectedShape ? Math.round((selectedShape.fontSize ?? 0) * page.width) : fontSize}
+                                onChange={(e) => handleFontSizeChange(Number(e.target.value))}
+                                className="w-20 h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                            />
+                        </div>
+                    )}
+
+                    {selectedShape?.kind === 'text' && (
+                        <textarea
+                            key={selectedShape.id}
+                            autoFocus
+                            rows={1}
+                            value={selectedShape.text ?? ''}
+                            onChange={(e) => handleTextChange(e.target.value)}
+                            onFocus={(e) => e.target.select()}
+                            placeholder="Type your note"
+                            className="min-w-[12rem] px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-zinc-800 dark:text-white text-sm resize-y outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                    )}
+
+                    {showColors && (
+                        <div className="flex items-center gap-2">
+                             {PRESET_COLORS.map(c => (
+                                <button
+                                    key={c}
+                                    onClick={() => handleColorChange(c)}
+                                    className={`w-8 h-8 rounded-full border-2 ${color === c ? 'border-indigo-600 scale-110' : 'border-transparent hover:scale-105'} transition-all shadow-sm`}
+                                    style={{ backgroundColor: c, borderColor: c === '#FFFFFF' ? '#e5e7eb' : undefined }}
+                                />
+                             ))}
+                             <input type="color" value={color} onChange={e => handleColorChange(e.target.value)} className="w-8 h-8 rounded-full cursor-pointer overflow-hidden border-0 p-0" />
+                        </div>
+                    )}
+
+                    {selectedShape && (
+                        <button onClick={deleteSelected} className="ml-auto px-3 py-1.5 rounded-lg text-xs font-bold text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20" title="Delete shape (Del)">
+                            Delete
+                        </button>
+                    )}
+
+                    {tool === 'select' && !selectedShape && (
+                        <span className="text-xs text-gray-400">Click a shape to move it, drag its handles to resize</span>
+                    )}
+                </div>
+
+                <div className="flex-1 bg-gray-200 dark:bg-zinc-950 overflow-auto flex items-center justify-center p-8 relative">
+                    <div className="relative shadow-2xl bg-white" style={{ width: 'fit-content', height: 'fit-content' }}>
+                        {thumbnailUrl ? (
+                            <img
+                                src={thumbnailUrl}
+                                style={{ maxWidth: '100%', maxHeight: '60vh', display: 'block', filter: toCssFilter(page.filters) }}
+                                className="pointer-events-none select-none"
+                            />
+                        ) : (
+                            <div className="bg-gray-100 animate-pulse" style={{ width: page.width, height: page.height }} />
+                        )}
+                        <div
+                            ref={surfaceRef}
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                            className={`absolute inset-0 touch-none ${tool === 'eraser' ? 'cursor-cell' : tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+                        >
+                            {/* The surface matches the image exactly, so no letterboxing */}
+                            <DoodleLayer strokes={visibleStrokes} shapes={shapes} width={page.width} height={page.height} preserveAspectRatio="none" className="absolute inset-0 w-full h-full" />
+
+                            {selectedShape && (
+                                <svg viewBox={`0 0 ${page.width} ${page.height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                                    {selectedShape.kind !== 'arrow' && (() => {
+                                        const box = getShapeBox(selectedShape);
+                                        return (
+                                            <rect
+                                                x={box.x * page.width} y={box.y * page.height} width={box.width * page.width} height={box.height * page.height}
+                                                fill="none" stroke="#4F46E5" strokeDasharray="4 3" vectorEffect="non-scaling-stroke"
+                                            />
+                                        );
+                                    })()}
+                                    {getHandles(selectedShape).map(({ handle, point }) => (
+                                        <rect
+                                            key={handle}
+                                            x={point[0] * page.width - handleSize / 2} y={point[1] * page.height - handleSize / 2}
+                                            width={handleSize} height={handleSize}
+                                            fill="white" stroke="#4F46E5" vectorEffect="non-scaling-stroke"
+                                        />
+                                    ))}
+                                </svg>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
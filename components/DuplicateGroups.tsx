@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { PageItem } from '../types';
+import { toCssFilter } from '../services/pdfService';
+
+interface DuplicateGroupsProps {
+  groups: PageItem[][];
+  deckPositions: Record<string, number>; // 1-based position of each page in the deck
+  thumbnails: Record<string, string>;
+  onRequestThumbnails: (pages: PageItem[]) => void;
+  analyzedCount: number;
+  totalCount: number;
+  onKeepLast: (groups: PageItem[][]) => void;
+  onKeepAll: (group: PageItem[]) => void;
+}
+
+// Review panel for runs of near-identical slides (animation builds). Keeping the last page
+// of a run deselects the earlier, less complete steps.
+export const DuplicateGroups: React.FC<DuplicateGroupsProps> = ({
+  groups, deckPositions, thumbnails, onRequestThumbnails, analyzedCount, totalCount, onKeepLast, onKeepAll,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isAnalyzing = analyzedCount < totalCount;
+
+  // The review list shows pages that may be far from the visible sheets
+  useEffect(() => {
+    if (isExpanded) onRequestThumbnails(groups.flat());
+  });
+
+  if (groups.length === 0 && !isAnalyzing) return null;
+
+  const extraPages = groups.reduce((sum, g) => sum + g.slice(0, -1).filter(p => p.isSelected).length, 0);
+
+  return (
+    <div className="w-full max-w-6xl mx-auto px-4 pt-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs bg-amber-50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30 text-amber-800 dark:text-amber-200 rounded-xl px-3 py-2">
+        {isAnalyzing ? <Loader2 size={14} className="animate-spin" /> : <Copy size={14} />}
+        <span className="font-bold">
+          {groups.length > 0
+            ? `${groups.length} slide build${groups.length === 1 ? '' : 's'} found · ${extraPages} earlier step${extraPages === 1 ? '' : 's'} still selected`
+            : 'Looking for repeated slides'}
+        </span>
+        {isAnalyzing && <span className="opacity-70">Checked {analyzedCount}/{totalCount} pages</span>}
+
+        {groups.length > 0 && (
+          <div className="flex items-center gap-2 ml-auto">
+            <button onClick={() => setIsExpanded(e => !e)} className="font-bold flex items-center gap-1 hover:underline">
+              {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />} Review
+            </button>
+            <button
+              onClick={() => onKeepLast(groups)}
+              disabled={extraPages === 0}
+              className="font-bold bg-amber-600 hover:bg-amber-700 text-white px-3 py-1 rounded-md disabled:opacity-40"
+              title="Deselect every step except the last, most complete page of each build"
+            >
+              Keep last of each
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isExpanded && groups.length > 0 && (
+        <div className="mt-2 max-h-80 overflow-y-auto space-y-2 pr-1">
+          {groups.map(group => (
+            <div key={group[0].id} className="flex items-center gap-3 bg-white dark:bg-zinc-900 border border-gray-100 dark:border-zinc-800 rounded-xl p-2">
+              <div className="flex items-end gap-2 overflow-x-auto flex-1">
+                {group.map((page, i) => (
+                  <div key={page.id} className={`shrink-0 text-center ${page.isSelected ? '' : 'opacity-40'}`}>
+                    <div className={`h-16 w-24 bg-white rounded border flex items-center justify-center overflow-hidden ${i === group.length - 1 ? 'border-indigo-500' : 'border-gray-200 dark:border-zinc-700'}`}>
+                      {thumbnails[page.id]
+                        ? <img src={thumbnails[page.id]} className="max-w-full max-h-full object-contain" style={{ filter: toCssFilter(page.filters) }} />
+                        : <div className="w-3/4 h-3/4 bg-gray-200 rounded-sm animate-pulse" />}
+                    </div>
+                    <span className="text-[10px] text-gray-500">
+                      #{deckPositions[page.id]}{i === group.length - 1 && ' · keep'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-col gap-1 shrink-0 text-xs">
+                <button onClick={() => onKeepLast([group])} className="font-bold px-2 py-1 rounded-md border border-gray-200 dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800">Keep last</button>
+                <button onClick={() => onKeepAll(group)} className="px-2 py-1 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-zinc-800">Keep all</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { X, Moon, Sun, Sliders, Link, Wand2 } from 'lucide-react';
+import { PageFilters, PageItem } from '../types';
+import { toCssFilter } from '../services/pdfService';
+
+interface FilterEditorProps {
+  page: PageItem;
+  thumbnailUrl?: string;
+  onChange: <K extends keyof PageFilters>(key: K, value: PageFilters[K]) => void;
+  onApplySuggestion: () => void;
+  onFollowGlobal: () => void;
+  onClose: () => void;
+}
+
+// Per-page filter editor. Every change here becomes an override the global Studio Controls won't touch.
+export const FilterEditor: React.FC<FilterEditorProps> = ({ page, thumbnailUrl, onChange, onApplySuggestion, onFollowGlobal, onClose }) => {
+  const { filters, filterOverrides, autoFilters } = page;
+
+  const overrideDot = (key: keyof PageFilters) => filterOverrides.includes(key) && (
+    <span className="w-1.5 h-1.5 rounded-full bg-indigo-500" title="Overridden for this page" />
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white dark:bg-[#1a1a1a] w-full max-w-md rounded-3xl shadow-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 dark:border-zinc-800 flex justify-between items-center bg-gray-50 dark:bg-zinc-900">
+          <h3 className="font-bold text-lg dark:text-white flex items-center gap-2"><Sliders size={18} /> Page {page.originalPageIndex + 1} Filters</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-200 dark:hover:bg-zinc-800 rounded-lg text-gray-500"><X size={20} /></button>
+        </div>
+
+        <div className="bg-gray-200 dark:bg-zinc-950 p-6 flex items-center justify-center">
+          <img
+            src={thumbnailUrl}
+            className="max-h-48 object-contain shadow-lg bg-white"
+            style={{ filter: toCssFilter(filters), transform: `rotate(${page.rotation}deg)` }}
+          />
+        </div>
+
+        <div className="p-6 space-y-5">
+          {autoFilters && (
+            <div className="flex items-center justify-between gap-3 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-800 dark:text-indigo-200 rounded-xl px-3 py-2 text-xs">
+              <span>
+                <strong>{autoFilters.isDarkBackground ? 'Dark' : 'Light'} background</strong> detected.
+                {' '}Suggested: {autoFilters.suggested.invert ? 'invert, ' : ''}brightness {autoFilters.suggested.whiteness}, contrast {autoFilters.suggested.blackness}
+              </span>
+              <button onClick={onApplySuggestion} className="shrink-0 font-bold flex items-center gap-1 hover:text-indigo-600" title="Use the suggested values for this page">
+                <Wand2 size={14} /> Use
+              </button>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => onChange('invert', !filters.invert)}
+              className={`flex-1 py-2 rounded-md text-sm font-medium border flex items-center justify-center gap-2 ${filters.invert ? 'bg-gray-900 text-white border-gray-900 dark:bg-white dark:text-black' : 'border-gray-200 dark:border-zinc-700 text-gray-600 dark:text-gray-400'}`}
+            >
+              {filters.invert ? <Moon size={14} /> : <Sun size={14} />} Invert {overrideDot('invert')}
+            </button>
+            <button
+              onClick={() => onChange('grayscale', !filters.grayscale)}
+              className={`flex-1 py-2 rounded-md text-sm font-medium border flex items-center justify-center gap-2 ${filters.grayscale ? 'bg-gray-500 text-white border-gray-500' : 'border-gray-200 dark:border-zinc-700 text-gray-600 dark:text-gray-400'}`}
+            >
+              B&W {overrideDot('grayscale')}
+            </button>
+          </div>
+
+          <label className="flex items-center gap-3 text-xs font-bold text-gray-500">
+            <Sun size={14} className="text-gray-400 shrink-0" />
+            <input
+              type="range" min="0" max="100"
+              value={filters.whiteness}
+              onChange={(e) => onChange('whiteness', Number(e.target.value))}
+              className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+              title="Brightness"
+            />
+            <span className="w-8 text-right">{filters.whiteness}</span>
+            {overrideDot('whiteness')}
+          </label>
+          <label className="flex items-center gap-3 text-xs font-bold text-gray-500">
+            <div className="w-3.5 h-3.5 rounded-full border-2 border-gray-400 shrink-0" />
+            <input
+              type="range" min="0" max="100"
+              value={filters.blackness}
+              onChange={(e) => onChange('blackness', Number(e.target.value))}
+              className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+              title="Contrast"
+            />
+            <span className="w-8 text-right">{filters.blackness}</span>
+            {overrideDot('blackness')}
+          </label>
+
+          <button
+            onClick={onFollowGlobal}
+            disabled={filterOverrides.length === 0}
+            className="w-full py-2 rounded-lg text-xs font-bold border border-gray-200 dark:border-zinc-700 text-gray-600 dark:text-gray-300 flex items-center justify-center gap-2 hover:bg-gray-100 dark:hover:bg-zinc-800 disabled:opacity-40"
+          >
+            <Link size={14} /> Follow global controls again
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { LayoutSettings, PageItem } from '../types';
+import { getNoteAreas, getNoteGrid } from '../services/layoutService';
+
+interface HandoutNotesProps {
+  layout: LayoutSettings;
+  sheetSize: { width: number; height: number };
+  slots: (PageItem | null)[];
+}
+
+// Preview of the handout note areas on a Dashboard sheet, in PDF points (y flipped) like the export
+export const HandoutNotes: React.FC<HandoutNotesProps> = ({ layout, sheetSize, slots }) => {
+  if (layout.imposition !== 'handout' || layout.handout.notesStyle === 'blank') return null;
+
+  const { width, height } = sheetSize;
+  const noteAreas = getNoteAreas(layout);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="absolute inset-0 w-full h-full pointer-events-none">
+      {slots.map((page, i) => {
+        if (!page) return null;
+        const area = noteAreas[i];
+        const { rows, columns } = getNoteGrid(area, layout.handout);
+        return (
+          <g key={page.id} fill="#bfbfbf" stroke="#bfbfbf" strokeWidth={0.5}>
+            {layout.handout.notesStyle === 'lines'
+              ? rows.map(y => <line key={y} x1={area.x} x2={area.x + area.width} y1={height - y} y2={height - y} />)
+              : rows.flatMap(y => columns.map(x => <circle key={`${x}-${y}`} cx={x} cy={height - y} r={0.6} stroke="none" />))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
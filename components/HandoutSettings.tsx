@@ -0,0 +1,64 @@
+import React from 'react';
+import { HandoutSettings as HandoutOptions } from '../types';
+
+interface HandoutSettingsProps {
+  settings: HandoutOptions;
+  onChange: <K extends keyof HandoutOptions>(key: K, value: HandoutOptions[K]) => void;
+}
+
+// Studio Controls section for the note areas of the handout layout
+export const HandoutSettings: React.FC<HandoutSettingsProps> = ({ settings, onChange }) => (
+  <div>
+    <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3 block">Handout Notes</label>
+    <div className="space-y-2">
+      <div className="flex bg-gray-100 dark:bg-zinc-800 p-0.5 rounded-md text-[10px] font-bold uppercase">
+        {(['right', 'below'] as const).map(position => (
+          <button
+            key={position}
+            onClick={() => onChange('notesPosition', position)}
+            className={`flex-1 py-1 rounded ${settings.notesPosition === position ? 'bg-white dark:bg-zinc-700 shadow text-indigo-600' : 'text-gray-500'}`}
+            title={position === 'right' ? 'Notes beside each page' : 'Notes under each page'}
+          >
+            {position}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex bg-gray-100 dark:bg-zinc-800 p-0.5 rounded-md text-[10px] font-bold uppercase">
+        {(['lines', 'dots', 'blank'] as const).map(style => (
+          <button
+            key={style}
+            onClick={() => onChange('notesStyle', style)}
+            className={`flex-1 py-1 rounded ${settings.notesStyle === style ? 'bg-white dark:bg-zinc-700 shadow text-indigo-600' : 'text-gray-500'}`}
+          >
+            {style}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2 text-[10px] font-bold text-gray-500 uppercase">
+        <label className="flex items-center gap-2">
+          <span className="w-12">{settings.notesPosition === 'right' ? 'Width' : 'Height'}</span>
+          <input
+            type="range" min="20" max="80"
+            value={Math.round(settings.notesRatio * 100)}
+            onChange={(e) => onChange('notesRatio', Number(e.target.value) / 100)}
+            className="flex-1 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            title="Share of each cell given to notes"
+          />
+          <span className="w-8 text-right">{Math.round(settings.notesRatio * 100)}%</span>
+        </label>
+        <label className={`flex items-center gap-2 ${settings.notesStyle === 'blank' ? 'opacity-40 pointer-events-none' : ''}`}>
+          <span className="w-12">Spacing</span>
+          <input
+            type="range" min="4" max="15"
+            value={settings.lineSpacingMm}
+            onChange={(e) => onChange('lineSpacingMm', Number(e.target.value))}
+            className="flex-1 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+          />
+          <span className="w-8 text-right">{settings.lineSpacingMm}mm</span>
+        </label>
+      </div>
+    </div>
+  </div>
+);
@@ -85,7 +85,7 @@ export const LegalFooter: React.FC = () => {
             <li><strong>No Data Collection:</strong> We do not collect, store, or transmit your files. All PDF processing happens locally within your web browser using WebAssembly technologies.</li>
             <li><strong>No Server Uploads:</strong> Your documents never leave your device. They are not uploaded to any cloud server or database owned by us.</li>
             <li><strong>Analytics:</strong> We use privacy-preserving analytics (Cloudflare) to count visitors. This does not track individual behavior or collect personal data.</li>
-            <li><strong>Local Storage:</strong> We may use your browser's local storage to save your preferences (like theme or layout settings), but never your file content.</li>
+            <li><strong>Local Storage:</strong> Your recent sessions (the PDFs you opened and your edits) are saved in your browser's own storage on this device so you can resume after a refresh. They are never sent anywhere, and you can delete them from the start screen at any time.</li>
           </ul>
         </Modal>
       )}
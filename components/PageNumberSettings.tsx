@@ -0,0 +1,91 @@
+import React from 'react';
+import { Hash } from 'lucide-react';
+import { PageNumberPosition, PageNumberScheme, PageNumberSettings as PageNumberOptions } from '../types';
+
+interface PageNumberSettingsProps {
+  settings: PageNumberOptions;
+  onChange: <K extends keyof PageNumberOptions>(key: K, value: PageNumberOptions[K]) => void;
+}
+
+const SCHEME_LABELS: Record<PageNumberScheme, string> = {
+  original: 'Original (per file)',
+  running: 'Running (1, 2, 3...)',
+  'file-prefixed': 'File-prefixed (L3-12)',
+};
+
+// Laid out like the spots on the page they stand for
+const POSITIONS: PageNumberPosition[] = ['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'];
+
+// Studio Controls section for page numbers
+export const PageNumberSettings: React.FC<PageNumberSettingsProps> = ({ settings, onChange }) => (
+  <div>
+    <div className="flex items-center justify-between mb-3">
+      <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Page Numbers</label>
+      <button
+        onClick={() => onChange('enabled', !settings.enabled)}
+        className={`px-2 py-1 border rounded-lg text-[10px] font-bold flex items-center gap-1 ${settings.enabled ? 'bg-indigo-100 text-indigo-700 border-indigo-200' : 'dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800'}`}
+      >
+        <Hash size={12} /> {settings.enabled ? 'On' : 'Off'}
+      </button>
+    </div>
+
+    <div className={`space-y-2 ${settings.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+      <div className="flex gap-1">
+        <select
+          value={settings.scheme}
+          onChange={(e) => onChange('scheme', e.target.value as PageNumberScheme)}
+          className="flex-1 min-w-0 py-1.5 px-2 rounded-md text-xs font-bold border border-gray-200 dark:border-zinc-700 bg-transparent dark:bg-zinc-900"
+        >
+          {(Object.keys(SCHEME_LABELS) as PageNumberScheme[]).map(scheme => (
+            <option key={scheme} value={scheme}>{SCHEME_LABELS[scheme]}</option>
+          ))}
+        </select>
+        {settings.scheme === 'file-prefixed' && (
+          <input
+            type="text"
+            value={settings.filePrefix}
+            onChange={(e) => onChange('filePrefix', e.target.value)}
+            className="w-10 py-1.5 px-2 rounded-md text-xs border border-gray-200 dark:border-zinc-700 bg-transparent dark:bg-zinc-900 dark:text-white"
+            title="Prefix before the file number"
+          />
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <div className="grid grid-cols-3 gap-0.5 p-0.5 rounded-md border border-gray-200 dark:border-zinc-700 w-16 shrink-0">
+          {POSITIONS.map(position => (
+            <button
+              key={position}
+              onClick={() => onChange('position', position)}
+              className={`h-3 rounded-sm ${settings.position === position ? 'bg-indigo-600' : 'bg-gray-200 dark:bg-zinc-700 hover:bg-gray-300'}`}
+              title={position.replace('-', ' ')}
+            />
+          ))}
+        </div>
+        <div className="flex flex-1 bg-gray-100 dark:bg-zinc-800 p-0.5 rounded-md text-[10px] font-bold uppercase">
+          {[false, true].map(outside => (
+            <button
+              key={String(outside)}
+              onClick={() => onChange('outside', outside)}
+              className={`flex-1 py-1 rounded ${settings.outside === outside ? 'bg-white dark:bg-zinc-700 shadow text-indigo-600' : 'text-gray-500'}`}
+              title={outside ? 'In the gutter or margin just outside the cell; on the page where that is too narrow' : 'On the page'}
+            >
+              {outside ? 'Outside' : 'Inside'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 text-[10px] font-bold text-gray-500 uppercase">
+        <span>Size</span>
+        <input
+          type="range" min="6" max="18"
+          value={settings.fontSize}
+          onChange={(e) => onChange('fontSize', Number(e.target.value))}
+          className="flex-1 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+        />
+        <span className="w-8 text-right">{settings.fontSize}pt</span>
+      </div>
+    </div>
+  </div>
+);
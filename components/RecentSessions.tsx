@@ -0,0 +1,72 @@
+import React from 'react';
+import { History, Trash2, ArrowRight } from 'lucide-react';
+import { SessionSummary } from '../services/sessionStore';
+
+interface RecentSessionsProps {
+  sessions: SessionSummary[];
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Resume banner for the newest saved session, followed by the older ones
+export const RecentSessions: React.FC<RecentSessionsProps> = ({ sessions, onOpen, onDelete }) => {
+  if (sessions.length === 0) return null;
+  const [latest, ...older] = sessions;
+
+  const describe = (session: SessionSummary) =>
+    `${session.pageCount} pages • ${session.fileCount} file${session.fileCount === 1 ? '' : 's'} • ${new Date(session.updatedAt).toLocaleString()}`;
+
+  return (
+    <div className="w-full mb-10 animate-slide-up space-y-4">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 p-5 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-900/40 rounded-2xl">
+        <div className="flex items-center gap-4 min-w-0">
+          <div className="w-10 h-10 shrink-0 rounded-lg bg-indigo-600 text-white flex items-center justify-center">
+            <History size={20} />
+          </div>
+          <div className="min-w-0">
+            <p className="font-semibold text-gray-900 dark:text-white truncate">Pick up where you left off: {latest.name}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{describe(latest)}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button
+            onClick={() => onDelete(latest.id)}
+            className="p-2 hover:bg-indigo-100 dark:hover:bg-zinc-800 rounded-full text-gray-400 hover:text-red-500 transition-colors"
+            title="Delete saved session"
+          >
+            <Trash2 size={18} />
+          </button>
+          <button
+            onClick={() => onOpen(latest.id)}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-xl text-sm font-medium flex items-center gap-2 transition-colors"
+          >
+            Resume <ArrowRight size={16} />
+          </button>
+        </div>
+      </div>
+
+      {older.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Recent Sessions</h4>
+          <div className="grid gap-2">
+            {older.map(session => (
+              <div key={session.id} className="flex items-center justify-between gap-4 px-4 py-3 bg-white dark:bg-zinc-900 border border-gray-100 dark:border-zinc-800 rounded-xl">
+                <button onClick={() => onOpen(session.id)} className="text-left min-w-0 flex-1 group">
+                  <p className="text-sm font-medium text-gray-800 dark:text-gray-100 truncate group-hover:text-indigo-600">{session.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{describe(session)}</p>
+                </button>
+                <button
+                  onClick={() => onDelete(session.id)}
+                  className="p-2 hover:bg-gray-100 dark:hover:bg-zinc-800 rounded-full text-gray-400 hover:text-red-500 transition-colors"
+                  title="Delete saved session"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { SessionSummary } from '../services/sessionStore';
+
+interface ResumeSessionDialogProps {
+  session: SessionSummary;
+  onResume: () => void;
+  onDismiss: () => void;
+}
+
+// Offered once on startup when a saved session exists; dismissing leaves it in Recent Sessions
+export const ResumeSessionDialog: React.FC<ResumeSessionDialogProps> = ({ session, onResume, onDismiss }) => (
+  <div className="fixed inset-0 z-[100] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onDismiss}>
+    <div className="bg-white dark:bg-[#1a1a1a] w-full max-w-sm rounded-2xl shadow-2xl p-6 space-y-4" onClick={e => e.stopPropagation()}>
+      <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2"><History size={18} /> Resume your last session?</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        <span className="font-medium text-gray-900 dark:text-white">{session.name}</span>, {session.pageCount} pages,
+        last edited {new Date(session.updatedAt).toLocaleString()}.
+      </p>
+      <div className="flex flex-col gap-2">
+        <button onClick={onResume} className="w-full py-2 rounded-lg text-sm font-bold bg-indigo-600 hover:bg-indigo-700 text-white">
+          Resume session
+        </button>
+        <button onClick={onDismiss} className="w-full py-2 rounded-lg text-sm font-medium text-gray-500 hover:bg-gray-100 dark:hover:bg-zinc-800">
+          Start fresh
+        </button>
+      </div>
+    </div>
+  </div>
+);
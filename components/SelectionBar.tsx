@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ListChecks, FlipHorizontal2 } from 'lucide-react';
+import { PageItem, UploadedFile } from '../types';
+import { HistorySetter } from '../hooks/useHistory';
+import { SelectionMode, SelectionScope, invertSelection, selectByRanges, selectEveryNth } from '../services/selectionService';
+
+interface SelectionBarProps {
+  pages: PageItem[];
+  files: Record<string, UploadedFile>;
+  setPages: HistorySetter<PageItem[]>;
+}
+
+const MODE_BUTTONS: { mode: SelectionMode; label: string; title: string }[] = [
+  { mode: 'add', label: 'Select', title: 'Add these pages to the selection' },
+  { mode: 'remove', label: 'Deselect', title: 'Remove these pages from the selection' },
+  { mode: 'only', label: 'Only', title: 'Select just these pages, deselect everything else' },
+];
+
+// Range expressions, every-n-th and invert, either across the deck (current order)
+// or within one file (its original page numbers). An empty range means the whole scope.
+export const SelectionBar: React.FC<SelectionBarProps> = ({ pages, files, setPages }) => {
+  const [scopeValue, setScopeValue] = useState('all');
+  const [expression, setExpression] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [everyN, setEveryN] = useState(2);
+  const [everyStart, setEveryStart] = useState(1);
+
+  const fileList = Object.values(files).filter(f => pages.some(p => p.fileId === f.id));
+  // Fall back to the whole deck if the chosen file is gone
+  const scope: SelectionScope = scopeValue !== 'all' && files[scopeValue] ? { kind: 'file', fileId: scopeValue } : { kind: 'all' };
+  const selectedCount = pages.filter(p => p.isSelected).length;
+
+  const applyRanges = (mode: SelectionMode) => {
+    try {
+      const next = selectByRanges(pages, expression, scope, mode);
+      setError(null);
+      setPages(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid range');
+    }
+  };
+
+  const numberInputClass = 'w-12 bg-white dark:bg-zinc-900 border border-gray-200 dark:border-zinc-700 rounded-md px-1.5 py-1 text-xs text-center';
+  const buttonClass = 'px-2.5 py-1 rounded-md text-xs font-bold border border-gray-200 dark:border-zinc-700 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-zinc-800 transition-colors';
+
+  return (
+    <div className="w-full max-w-6xl mx-auto px-4 pt-4">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+        <span className="flex items-center gap-1.5 font-bold text-gray-500">
+          <ListChecks size={14} /> {selectedCount}/{pages.length} selected
+        </span>
+
+        <select
+          value={scope.kind === 'file' ? scope.fileId : 'all'}
+          onChange={(e) => setScopeValue(e.target.value)}
+          className="bg-white dark:bg-zinc-900 border border-gray-200 dark:border-zinc-700 rounded-md px-2 py-1 text-xs max-w-[12rem]"
+          title="Number pages across the whole deck, or by their page numbers in one file"
+        >
+          <option value="all">Whole deck</option>
+          {fileList.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+        </select>
+
+        <div className="flex items-center gap-1.5">
+          <input
+            type="text"
+            value={expression}
+            onChange={(e) => { setExpression(e.target.value); setError(null); }}
+            onKeyDown={(e) => { if (e.key === 'Enter') applyRanges('only'); }}
+            placeholder="e.g. 1-5, 8, 12-"
+            className={`w-36 bg-white dark:bg-zinc-900 border rounded-md px-2 py-1 text-xs ${error ? 'border-red-400' : 'border-gray-200 dark:border-zinc-700'}`}
+          />
+          {MODE_BUTTONS.map(({ mode, label, title }) => (
+            <button key={mode} onClick={() => applyRanges(mode)} className={buttonClass} title={title}>{label}</button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1.5 text-gray-500">
+          Every
+          <input type="number" min={1} value={everyN} onChange={(e) => setEveryN(Math.max(1, Number(e.target.value) || 1))} className={numberInputClass} />
+          from
+          <input type="number" min={1} value={everyStart} onChange={(e) => setEveryStart(Math.max(1, Number(e.target.value) || 1))} className={numberInputClass} />
+          <button onClick={() => setPages(prev => selectEveryNth(prev, everyN, everyStart, scope, 'only'))} className={buttonClass} title="Select just these pages, deselect everything else">
+            Pick
+          </button>
+        </div>
+
+        <button onClick={() => setPages(prev => invertSelection(prev, scope))} className={`${buttonClass} flex items-center gap-1`}>
+          <FlipHorizontal2 size={12} /> Invert
+        </button>
+
+        <span className="text-gray-400 hidden lg:inline">Shift-click a checkbox to select a range</span>
+      </div>
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
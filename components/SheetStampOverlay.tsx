@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Box, LayoutSettings, PageItem, SheetSide, UploadedFile } from '../types';
+import { MM_TO_PT, fitPageInCell, getRoomAroundCell } from '../services/layoutService';
+import {
+  PDF_FONT_FAMILY, fillStampTemplate, getPageNumberPlacement, getStampContext, getStampPlacement, getWatermarkAngle, getWatermarkImageBox,
+  hasSheetStamps,
+} from '../services/stampService';
+
+interface SheetStampOverlayProps {
+  layout: LayoutSettings;
+  sheetSize: { width: number; height: number };
+  slots: (PageItem | null)[]; // What the preview sheet shows, deselected pages included
+  printedSide: Pick<SheetSide, 'slots' | 'sheetNumber'> | null; // The exported side it stands for; null when nothing on it prints
+  cells: Box[];
+  pageLabels: Record<string, string>; // Page number per printed page id
+  files: Record<string, UploadedFile>;
+  totalSheets: number;
+}
+
+// Rough Helvetica advance per character in font sizes; SVG stretches the text to its exact length
+const AVERAGE_CHAR_WIDTH = 0.6;
+
+const PAGE_NUMBER_ANCHORS = { left: 'start', center: 'middle', right: 'end' } as const;
+
+// Natural size of the watermark image, which the export uses to size it
+const useImageSize = (url: string | null) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  useEffect(() => {
+    setSize(null);
+    if (!url) return;
+    const image = new Image();
+    image.onload = () => setSize({ width: image.naturalWidth, height: image.naturalHeight });
+    image.src = url;
+    return () => { image.onload = null; };
+  }, [url]);
+  return size;
+};
+
+// Preview of the header, footer, page numbers and watermark on a Dashboard sheet. Drawn in
+// PDF points (y flipped) so sizes match the export.
+export const SheetStampOverlay: React.FC<SheetStampOverlayProps> = ({ layout, sheetSize, slots, printedSide, cells, pageLabels, files, totalSheets }) => {
+  const { stamps, watermark, pageNumbers } = layout;
+  const watermarkImageSize = useImageSize(watermark.type === 'image' ? watermark.imageDataUrl : null);
+  const showWatermark = (watermark.type === 'text' && watermark.text.trim()) || (watermark.type === 'image' && watermark.imageDataUrl);
+  if (!hasSheetStamps(stamps) && !showWatermark && !pageNumbers.enabled) return null;
+
+  const { width, height } = sheetSize;
+  const { inset, headerY, footerY } = getStampPlacement(height, stamps.fontSize, layout.paper.marginMm * MM_TO_PT);
+  // Header and footer tokens describe the exported side, exactly as the PDF stamps them
+  const context = printedSide && getStampContext(printedSide.slots, files, printedSide.sheetNumber, totalSheets, new Date().toLocaleDateString());
+
+  const watermarkText = watermark.text.trim();
+  const watermarkLength = Math.hypot(width, height) * watermark.scale;
+  const watermarkSize = watermarkLength / (Math.max(1, watermarkText.length) * AVERAGE_CHAR_WIDTH);
+  const watermarkAngle = (getWatermarkAngle(width, height) * 180) / Math.PI;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="absolute inset-0 w-full h-full pointer-events-none z-20">
+      {watermark.type === 'text' && watermarkText && (
+        <text
+          x={width / 2} y={height / 2} dy={watermarkSize * 0.36}
+          textAnchor="middle" textLength={watermarkLength} lengthAdjust="spacingAndGlyphs"
+          fontSize={watermarkSize} fontFamily={PDF_FONT_FAMILY} fill="#808080" fillOpacity={watermark.opacity}
+          transform={`rotate(${-watermarkAngle} ${width / 2} ${height / 2})`}
+        >
+          {watermarkText}
+        </text>
+      )}
+      {watermark.type === 'image' && watermark.imageDataUrl && watermarkImageSize && (
+        <image
+          href={watermark.imageDataUrl}
+          {...getWatermarkImageBox(width, height, watermarkImageSize.width, watermarkImageSize.height, watermark.scale)}
+          preserveAspectRatio="none" opacity={watermark.opacity}
+        />
+      )}
+      {context && ([[stamps.header, headerY], [stamps.footer, footerY]] as const).map(([stamp, y], i) => {
+        const text = fillStampTemplate(stamp.text, context).trim();
+        if (!text) return null;
+        const x = stamp.align === 'left' ? inset : stamp.align === 'right' ? width - inset : width / 2;
+        const anchor = stamp.align === 'left' ? 'start' : stamp.align === 'right' ? 'end' : 'middle';
+        return (
+          <text key={i} x={x} y={height - y} textAnchor={anchor} fontSize={stamps.fontSize} fontFamily={PDF_FONT_FAMILY} fill="#595959">
+            {text}
+          </text>
+        );
+      })}
+      {pageNumbers.enabled && slots.map((page, i) => {
+        const label = page && pageLabels[page.id];
+        if (!label) return null;
+        const { x, y, align, outside } = getPageNumberPlacement(pageNumbers, fitPageInCell(page, cells[i]), cells[i], getRoomAroundCell(layout, i));
+        const size = pageNumbers.fontSize;
+        const textWidth = label.length * size * AVERAGE_CHAR_WIDTH;
+        const left = align === 'left' ? x : align === 'right' ? x - textWidth : x - textWidth / 2;
+        return (
+          <g key={page.id}>
+            {!outside && (
+              <rect x={left - size * 0.3} y={height - y - size * 1.1} width={textWidth + size * 0.6} height={size * 1.4} fill="white" fillOpacity={0.9} />
+            )}
+            <text x={x} y={height - y} textAnchor={PAGE_NUMBER_ANCHORS[align]} fontSize={size} fontWeight="bold" fontFamily={PDF_FONT_FAMILY} fill="black">
+              {label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useRef } from 'react';
+import { AlignLeft, AlignCenter, AlignRight, ImagePlus } from 'lucide-react';
+import { SheetStampSettings, StampAlign, WatermarkSettings } from '../types';
+import { STAMP_TOKENS } from '../services/stampService';
+
+interface StampSettingsProps {
+  stamps: SheetStampSettings;
+  watermark: WatermarkSettings;
+  onStampsChange: <K extends keyof SheetStampSettings>(key: K, value: SheetStampSettings[K]) => void;
+  onWatermarkChange: <K extends keyof WatermarkSettings>(key: K, value: WatermarkSettings[K]) => void;
+}
+
+const ALIGN_ICONS: Record<StampAlign, React.ReactNode> = {
+  left: <AlignLeft size={12} />,
+  center: <AlignCenter size={12} />,
+  right: <AlignRight size={12} />,
+};
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Studio Controls sections for the sheet header/footer and the watermark
+export const StampSettings: React.FC<StampSettingsProps> = ({ stamps, watermark, onStampsChange, onWatermarkChange }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImageChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onWatermarkChange('imageDataUrl', await readAsDataUrl(file));
+    } catch (error) {
+      console.error("Error reading watermark image:", error);
+      alert("Failed to read that image.");
+    }
+  };
+
+  return (
+    <>
+      {/* Header & Footer */}
+      <div>
+        <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3 block">Header & Footer</label>
+        <div className="space-y-2">
+          {(['header', 'footer'] as const).map(key => (
+            <div key={key} className="flex gap-1">
+              <input
+                type="text"
+                value={stamps[key].text}
+                onChange={(e) => onStampsChange(key, { ...stamps[key], text: e.target.value })}
+                placeholder={key === 'header' ? 'Header, e.g. {file}' : 'Footer, e.g. {sheet}/{totalSheets}'}
+                className="flex-1 min-w-0 py-1.5 px-2 rounded-md text-xs border border-gray-200 dark:border-zinc-700 bg-transparent dark:bg-zinc-900 dark:text-white"
+              />
+              {(['left', 'center', 'right'] as const).map(align => (
+                <button
+                  key={align}
+                  onClick={() => onStampsChange(key, { ...stamps[key], align })}
+                  className={`px-1.5 rounded-md border ${stamps[key].align === align ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-gray-200 dark:border-zinc-700 text-gray-500 hover:bg-gray-50 dark:hover:bg-zinc-800'}`}
+                  title={`Align ${align}`}
+                >
+                  {ALIGN_ICONS[align]}
+                </button>
+              ))}
+            </div>
+          ))}
+          <div className="flex items-center gap-2 text-[10px] font-bold text-gray-500 uppercase">
+            <span>Size</span>
+            <input
+              type="range" min="6" max="16"
+              value={stamps.fontSize}
+              onChange={(e) => onStampsChange('fontSize', Number(e.target.value))}
+              className="flex-1 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <span className="w-8 text-right">{stamps.fontSize}pt</span>
+          </div>
+          <p className="text-[10px] text-gray-400 leading-relaxed" title="{pages} lists the original page numbers on the sheet">
+            {STAMP_TOKENS.join(' ')}
+          </p>
+        </div>
+      </div>
+
+      {/* Watermark */}
+      <div>
+        <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3 block">Watermark</label>
+        <div className="flex bg-gray-100 dark:bg-zinc-800 p-0.5 rounded-md mb-2 text-[10px] font-bold uppercase">
+          {(['none', 'text', 'image'] as const).map(type => (
+            <button
+              key={type}
+              onClick={() => onWatermarkChange('type', type)}
+              className={`flex-1 py-1 rounded ${watermark.type === type ? 'bg-white dark:bg-zinc-700 shadow text-indigo-600' : 'text-gray-500'}`}
+            >
+              {type}
+            </button>
+          ))}
+        </div>
+
+        {watermark.type === 'text' && (
+          <input
+            type="text"
+            value={watermark.text}
+            onChange={(e) => onWatermarkChange('text', e.target.value)}
+            placeholder="Watermark text"
+            className="w-full py-1.5 px-2 mb-2 rounded-md text-xs border border-gray-200 dark:border-zinc-700 bg-transparent dark:bg-zinc-900 dark:text-white"
+          />
+        )}
+
+        {watermark.type === 'image' && (
+          <div className="flex items-center gap-2 mb-2">
+            <button
+              onClick={() => imageInputRef.current?.click()}
+              className="flex-1 py-1.5 px-2 rounded-md text-xs font-bold border border-gray-200 dark:border-zinc-700 flex items-center justify-center gap-1 hover:bg-gray-50 dark:hover:bg-zinc-800"
+            >
+              <ImagePlus size={12} /> {watermark.imageDataUrl ? 'Change image' : 'Choose PNG or JPEG'}
+            </button>
+            {watermark.imageDataUrl && <img src={watermark.imageDataUrl} className="h-7 w-7 object-contain rounded border border-gray-200 dark:border-zinc-700 bg-white" />}
+            <input ref={imageInputRef} type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleImageChosen} />
+          </div>
+        )}
+
+        {watermark.type !== 'none' && (
+          <div className="space-y-2 text-[10px] font-bold text-gray-500 uppercase">
+            <label className="flex items-center gap-2">
+              <span className="w-12">Opacity</span>
+              <input
+                type="range" min="5" max="60"
+                value={Math.round(watermark.opacity * 100)}
+                onChange={(e) => onWatermarkChange('opacity', Number(e.target.value) / 100)}
+                className="flex-1 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-12">Size</span>
+              <input
+                type="range" min="10" max="100"
+                value={Math.round(watermark.scale * 100)}
+                onChange={(e) => onWatermarkChange('scale', Number(e.target.value) / 100)}
+                className="flex-1 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+              />
+            </label>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+
+interface StartOverDialogProps {
+  onKeepSaved: () => void;
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+// Asked on "Start Over": the current session can stay in Recent Sessions or go for good
+export const StartOverDialog: React.FC<StartOverDialogProps> = ({ onKeepSaved, onDiscard, onCancel }) => (
+  <div className="fixed inset-0 z-[100] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onCancel}>
+    <div className="bg-white dark:bg-[#1a1a1a] w-full max-w-sm rounded-2xl shadow-2xl p-6 space-y-4" onClick={e => e.stopPropagation()}>
+      <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2"><RotateCcw size={18} /> Start over?</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Your work is saved on this device. Keep it in Recent Sessions to reopen later, or discard it.
+      </p>
+      <div className="flex flex-col gap-2">
+        <button onClick={onKeepSaved} className="w-full py-2 rounded-lg text-sm font-bold bg-indigo-600 hover:bg-indigo-700 text-white">
+          Keep saved session
+        </button>
+        <button onClick={onDiscard} className="w-full py-2 rounded-lg text-sm font-bold border border-red-200 dark:border-red-900/50 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20">
+          Discard saved session
+        </button>
+        <button onClick={onCancel} className="w-full py-2 rounded-lg text-sm font-medium text-gray-500 hover:bg-gray-100 dark:hover:bg-zinc-800">
+          Cancel
+        </button>
+      </div>
+    </div>
+  </div>
+);
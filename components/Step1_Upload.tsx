@@ -1,6 +1,11 @@
 import React, { useCallback } from 'react';
-import { UploadCloud, FileText, X } from 'lucide-react';
+import { UploadCloud, FileText, Image, X } from 'lucide-react';
 import { UploadedFile } from '../types';
+import { PROJECT_EXTENSION, isProjectFile } from '../services/projectFile';
+import { IMAGE_TYPES, isImageFile } from '../services/pdfService';
+
+// PDFs and images, plus project files exported from the Dashboard
+const isAcceptedFile = (f: File) => f.type === 'application/pdf' || isImageFile(f) || isProjectFile(f);
 
 interface Step1Props {
   files: UploadedFile[];
@@ -16,7 +21,7 @@ export const Step1_Upload: React.FC<Step1Props> = ({ files, onFilesAdded, onFile
     e.preventDefault();
     e.stopPropagation();
     
-    const droppedFiles = (Array.from(e.dataTransfer.files) as File[]).filter(f => f.type === 'application/pdf');
+    const droppedFiles = (Array.from(e.dataTransfer.files) as File[]).filter(isAcceptedFile);
     if (droppedFiles.length > 0) {
       onFilesAdded(droppedFiles);
     }
@@ -28,7 +33,7 @@ export const Step1_Upload: React.FC<Step1Props> = ({ files, onFilesAdded, onFile
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const selectedFiles = (Array.from(e.target.files) as File[]).filter(f => f.type === 'application/pdf');
+      const selectedFiles = (Array.from(e.target.files) as File[]).filter(isAcceptedFile);
       onFilesAdded(selectedFiles);
     }
   };
@@ -50,7 +55,7 @@ export const Step1_Upload: React.FC<Step1Props> = ({ files, onFilesAdded, onFile
           id="fileInput" 
           type="file" 
           multiple 
-          accept=".pdf" 
+          accept={`.pdf,${IMAGE_TYPES.join(',')},${PROJECT_EXTENSION}`} 
           className="hidden" 
           onChange={handleInputChange}
         />
@@ -58,8 +63,9 @@ export const Step1_Upload: React.FC<Step1Props> = ({ files, onFilesAdded, onFile
         <div className="p-6 rounded-full bg-white dark:bg-zinc-800 shadow-xl mb-6 group-hover:scale-110 transition-transform duration-300">
           <UploadCloud className="w-10 h-10 text-indigo-600" />
         </div>
-        <h3 className="text-2xl font-semibold text-gray-800 dark:text-gray-100 mb-2">Drop your PDFs here</h3>
+        <h3 className="text-2xl font-semibold text-gray-800 dark:text-gray-100 mb-2">Drop your PDFs or images here</h3>
         <p className="text-gray-500 dark:text-gray-400 text-sm">or click to browse from your device</p>
+        <p className="text-gray-400 dark:text-gray-500 text-xs mt-2">JPEG, PNG and WebP become one page each • Shared {PROJECT_EXTENSION} project files open here too</p>
       </div>
 
       {files.length > 0 && (
@@ -79,12 +85,18 @@ export const Step1_Upload: React.FC<Step1Props> = ({ files, onFilesAdded, onFile
             {files.map(file => (
               <div key={file.id} className="flex items-center justify-between p-4 bg-white dark:bg-zinc-900 border border-gray-100 dark:border-zinc-800 rounded-2xl shadow-sm hover:shadow-md transition-all">
                 <div className="flex items-center gap-4">
-                  <div className="w-10 h-10 rounded-lg bg-red-50 dark:bg-red-900/20 flex items-center justify-center text-red-500">
-                    <FileText size={20} />
-                  </div>
+                  {file.kind === 'image' ? (
+                    <div className="w-10 h-10 rounded-lg bg-sky-50 dark:bg-sky-900/20 flex items-center justify-center text-sky-500">
+                      <Image size={20} />
+                    </div>
+                  ) : (
+                    <div className="w-10 h-10 rounded-lg bg-red-50 dark:bg-red-900/20 flex items-center justify-center text-red-500">
+                      <FileText size={20} />
+                    </div>
+                  )}
                   <div>
                     <p className="font-medium text-gray-900 dark:text-white truncate max-w-md">{file.name}</p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">{(file.size / 1024 / 1024).toFixed(2)} MB • {file.pageCount} pages</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{(file.size / 1024 / 1024).toFixed(2)} MB • {file.kind === 'image' ? 'Image' : `${file.pageCount} pages`}</p>
                   </div>
                 </div>
                 <button 
@@ -0,0 +1,97 @@
+import { SetStateAction, useCallback, useState } from 'react';
+
+// Consecutive changes with the same group key merge into one undo step while they keep
+// arriving within this window (a slider drag fires dozens of changes)
+const GROUP_WINDOW_MS = 1000;
+
+// Oldest snapshots are dropped beyond this many undo steps
+const MAX_HISTORY = 100;
+
+export interface HistoryOptions {
+  group?: string;
+}
+
+// Drop-in for a React state setter that also records an undo step
+export type HistorySetter<T> = (update: SetStateAction<T>, options?: HistoryOptions) => void;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastGroup: string | null;
+  lastChangeAt: number;
+}
+
+const resolve = <T,>(update: SetStateAction<T>, prev: T): T =>
+  typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+
+// Undo/redo over an immutable value. `set` records a step, `patch` rewrites every snapshot
+// without recording one (for background updates such as thumbnail analysis), `reset` starts over.
+export const useHistory = <T,>(initial: T) => {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [], present: initial, future: [], lastGroup: null, lastChangeAt: 0,
+  });
+
+  const set = useCallback<HistorySetter<T>>((update, options) => {
+    setHistory(h => {
+      const next = resolve(update, h.present);
+      if (Object.is(next, h.present)) return h;
+
+      const now = Date.now();
+      const group = options?.group ?? null;
+      const extendsGroup = group !== null && group === h.lastGroup && now - h.lastChangeAt < GROUP_WINDOW_MS;
+
+      return {
+        past: extendsGroup ? h.past : [...h.past, h.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        lastGroup: group,
+        lastChangeAt: now,
+      };
+    });
+  }, []);
+
+  const patch = useCallback((fn: (value: T) => T) => {
+    setHistory(h => ({
+      ...h,
+      past: h.past.map(fn),
+      present: fn(h.present),
+      future: h.future.map(fn),
+    }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+      lastGroup: null,
+      lastChangeAt: 0,
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+      lastGroup: null,
+      lastChangeAt: 0,
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], lastGroup: null, lastChangeAt: 0 });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    patch,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+
+export interface OfflineStatus {
+  isOnline: boolean;
+  isOfflineReady: boolean; // Every file of this build is cached by the service worker
+}
+
+// Tracks connectivity and whether the service worker has finished precaching the app.
+// The worker reports through 'offline-status' messages (see public/sw.js).
+export const useOfflineStatus = (): OfflineStatus => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isOfflineReady, setIsOfflineReady] = useState(false);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+
+    const serviceWorker = navigator.serviceWorker;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'offline-status') setIsOfflineReady(Boolean(event.data.ready));
+    };
+
+    if (serviceWorker) {
+      serviceWorker.addEventListener('message', handleMessage);
+      serviceWorker.ready.then(registration => {
+        registration.active?.postMessage({ type: 'get-offline-status' });
+      });
+    }
+
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+      serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, []);
+
+  return { isOnline, isOfflineReady };
+};
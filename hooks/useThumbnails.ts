@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PageAnalysis, PageItem, UploadedFile } from '../types';
+import { analyzePageImage, renderPageToThumbnail } from '../services/pdfService';
+import { needsAnalysis } from '../services/pageAnalysis';
+
+// On-demand thumbnail rendering. The Dashboard asks for the pages it is about to show,
+// they render one at a time (newest request first) and are kept as blob URLs.
+// Thumbnails are revoked when their pages go away or the app resets.
+// Pages that never scroll into view are still analyzed in the background, at low priority,
+// so auto filters and duplicate detection cover the whole deck.
+export const useThumbnails = (
+  files: Record<string, UploadedFile>,
+  onAnalyzed: (pageId: string, analysis: PageAnalysis) => void
+) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  // Refs so the queue worker always sees the latest values without re-creating callbacks
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  const onAnalyzedRef = useRef(onAnalyzed);
+  onAnalyzedRef.current = onAnalyzed;
+
+  const urlsRef = useRef<Record<string, string>>({});
+  const requestedRef = useRef(new Set<string>());
+  const queueRef = useRef<PageItem[]>([]);
+  const analyzedRef = useRef(new Set<string>());
+  const analysisQueueRef = useRef<PageItem[]>([]);
+  const isRunningRef = useRef(false);
+
+  const reportAnalysis = (pageId: string, analysis: PageAnalysis) => {
+    analyzedRef.current.add(pageId);
+    onAnalyzedRef.current(pageId, analysis);
+  };
+
+  const renderThumbnail = async (page: PageItem, file: UploadedFile) => {
+    try {
+      const { url, analysis } = await renderPageToThumbnail(file, page.originalPageIndex, 0.5, {
+        analyze: needsAnalysis(page) && !analyzedRef.current.has(page.id),
+      });
+
+      // Released, or rendered by a repeated request, while this one was in flight
+      if (!requestedRef.current.has(page.id) || urlsRef.current[page.id]) {
+        URL.revokeObjectURL(url);
+        return;
+      }
+
+      urlsRef.current[page.id] = url;
+      setThumbnails(prev => ({ ...prev, [page.id]: url }));
+      if (analysis) reportAnalysis(page.id, analysis);
+    } catch (error) {
+      console.error("Thumbnail render failed:", error);
+      requestedRef.current.delete(page.id); // Allow a retry next time it scrolls into view
+    }
+  };
+
+  const processQueue = useCallback(async () => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+
+    while (queueRef.current.length > 0 || analysisQueueRef.current.length > 0) {
+      // Thumbnails the user is looking at always go first
+      if (queueRef.current.length > 0) {
+        const page = queueRef.current.shift()!;
+        const file = filesRef.current[page.fileId];
+        if (file && requestedRef.current.has(page.id) && !urlsRef.current[page.id]) {
+          await renderThumbnail(page, file);
+        }
+        continue;
+      }
+
+      const page = analysisQueueRef.current.shift()!;
+      const file = filesRef.current[page.fileId];
+      if (!file || analyzedRef.current.has(page.id)) continue;
+      try {
+        reportAnalysis(page.id, await analyzePageImage(file, page.originalPageIndex));
+      } catch (error) {
+        console.error("Page analysis failed:", error);
+        analyzedRef.current.add(page.id); // Don't keep retrying a page pdf.js can't render
+      }
+    }
+
+    isRunningRef.current = false;
+  }, []);
+
+  const requestThumbnails = useCallback((pages: PageItem[]) => {
+    const missing = pages.filter(p => !requestedRef.current.has(p.id));
+    if (missing.length === 0) return;
+
+    missing.forEach(p => requestedRef.current.add(p.id));
+    // What's on screen now matters more than what scrolled past
+    queueRef.current.unshift(...missing);
+    processQueue();
+  }, [processQueue]);
+
+  // Queues background analysis for pages that still lack it, in deck order
+  const requestAnalysis = useCallback((pages: PageItem[]) => {
+    const queued = new Set(analysisQueueRef.current.map(p => p.id));
+    const missing = pages.filter(p => needsAnalysis(p) && !analyzedRef.current.has(p.id) && !queued.has(p.id));
+    if (missing.length === 0) return;
+
+    analysisQueueRef.current.push(...missing);
+    processQueue();
+  }, [processQueue]);
+
+  // Revokes thumbnails of the given pages, or all of them
+  const releaseThumbnails = useCallback((pageIds?: string[]) => {
+    const ids = pageIds ?? [...requestedRef.current, ...analyzedRef.current];
+
+    for (const id of ids) {
+      const url = urlsRef.current[id];
+      if (url) URL.revokeObjectURL(url);
+      delete urlsRef.current[id];
+      requestedRef.current.delete(id);
+      analyzedRef.current.delete(id);
+    }
+    const released = new Set(ids);
+    queueRef.current = queueRef.current.filter(p => requestedRef.current.has(p.id));
+    analysisQueueRef.current = pageIds ? analysisQueueRef.current.filter(p => !released.has(p.id)) : [];
+
+    setThumbnails(prev => {
+      const next = { ...prev };
+      for (const id of ids) delete next[id];
+      return next;
+    });
+  }, []);
+
+  // Nothing survives the app itself
+  useEffect(() => () => {
+    Object.values(urlsRef.current).forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  return { thumbnails, requestThumbnails, requestAnalysis, releaseThumbnails };
+};
@@ -1,44 +1,80 @@
+// Filled in by the build (see offlineAssets in vite.config.ts) with every file of the current
+// build and a version derived from their contents. The dev server leaves the placeholder.
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST__ || { version: 'dev', assets: [] };
 
-const CACHE_NAME = 'pdfbhai-v2';
-// We precache the core app shell. 
-const PRECACHE_ASSETS = [
-  '/',
-  '/index.html',
-  '/manifest.json',
-  '/logo.png'
-];
+const CACHE_PREFIX = 'pdfbhai-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${PRECACHE_MANIFEST.version}`;
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime-${PRECACHE_MANIFEST.version}`;
 
-// 1. Install: Cache core assets immediately
+// True once every file of this build is in the shell cache
+const isPrecacheComplete = async () => {
+  if (PRECACHE_MANIFEST.assets.length === 0) return false;
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.keys();
+  return cached.length >= PRECACHE_MANIFEST.assets.length;
+};
+
+const broadcastStatus = async () => {
+  const ready = await isPrecacheComplete();
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach(client => client.postMessage({ type: 'offline-status', ready, version: PRECACHE_MANIFEST.version }));
+};
+
+// 1. Install: Cache the whole build before this version takes over
 self.addEventListener('install', (event) => {
   self.skipWaiting(); // CRITICAL: Forces SW to activate immediately, fixing PWABuilder detection
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      return cache.addAll(PRECACHE_ASSETS);
+    caches.open(SHELL_CACHE).then((cache) => {
+      return cache.addAll(PRECACHE_MANIFEST.assets);
     })
   );
 });
 
-// 2. Activate: Clean up old caches and take control of the page
+// 2. Activate: Drop caches of older builds and take control of the page
 self.addEventListener('activate', (event) => {
   event.waitUntil(
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
+          if (cacheName !== SHELL_CACHE && cacheName !== RUNTIME_CACHE) {
             return caches.delete(cacheName);
           }
         })
       );
-    })
+    }).then(() => self.clients.claim()) // CRITICAL: Makes the SW control the page without a reload
+      .then(broadcastStatus)
   );
-  self.clients.claim(); // CRITICAL: Makes the SW control the page without a reload
 });
 
-// 3. Fetch: Stale-While-Revalidate Strategy
-// This serves from cache immediately (fast) while updating from network in the background.
+// The page asks on startup, in case it missed the broadcast after activation
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'get-offline-status') {
+    event.waitUntil(broadcastStatus());
+  }
+});
+
+// 3. Fetch: Precached build files come straight from the cache (their names are hashed, so
+// they never go stale). Page loads fall back to the cached shell when offline, and anything
+// else uses Stale-While-Revalidate.
 self.addEventListener('fetch', (event) => {
-  // Skip non-http requests (like extensions)
-  if (!event.request.url.startsWith('http')) return;
+  // Skip non-http requests (like extensions) and anything that isn't a plain read
+  if (!event.request.url.startsWith('http') || event.request.method !== 'GET') return;
+
+  const url = new URL(event.request.url);
+
+  if (event.request.mode === 'navigate') {
+    event.respondWith(
+      fetch(event.request).catch(() => caches.match('/', { cacheName: SHELL_CACHE }))
+    );
+    return;
+  }
+
+  if (url.origin === self.location.origin && PRECACHE_MANIFEST.assets.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(event.request, { cacheName: SHELL_CACHE }).then((cachedResponse) => cachedResponse || fetch(event.request))
+    );
+    return;
+  }
 
   event.respondWith(
     caches.match(event.request).then((cachedResponse) => {
@@ -47,7 +83,7 @@ self.addEventListener('fetch', (event) => {
         // Check if we received a valid response
         if (networkResponse && networkResponse.status === 200 && networkResponse.type === 'basic') {
           const responseToCache = networkResponse.clone();
-          caches.open(CACHE_NAME).then((cache) => {
+          caches.open(RUNTIME_CACHE).then((cache) => {
             cache.put(event.request, responseToCache);
           });
         }
@@ -0,0 +1,183 @@
+import { PDFFont, PDFPage, LineCapStyle, LineJoinStyle, degrees, popGraphicsState, pushGraphicsState, rgb, setLineJoin } from 'pdf-lib';
+import { Box, DoodleShape, DoodleStroke, DoodleTool, PageItem } from '../types';
+import { toEncodableText } from './stampService';
+
+// Pencil ink is nearly opaque, the marker is a see-through highlighter
+export const DOODLE_TOOL_OPACITY: Record<DoodleTool, number> = {
+  pencil: 0.9,
+  marker: 0.4,
+};
+
+// Highlight boxes are filled with see-through color, like a marker
+export const HIGHLIGHT_OPACITY = 0.35;
+
+export const TEXT_LINE_HEIGHT = 1.2;
+// Distance from the top of a text line to its baseline, in font sizes
+const TEXT_BASELINE = 0.9;
+
+// Points closer than this (fraction of the page) to the previous one are dropped while drawing
+const MIN_POINT_DISTANCE = 0.002;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// Appends a point unless it's too close to the last one; returns the same array when skipped
+export const addStrokePoint = (points: [number, number][], x: number, y: number): [number, number][] => {
+  const last = points[points.length - 1];
+  if (last && Math.hypot(x - last[0], y - last[1]) < MIN_POINT_DISTANCE) return points;
+  return [...points, [round(x), round(y)]];
+};
+
+// SVG path data in a width x height box (top-left origin). A single point becomes a dot
+// thanks to the round line caps.
+export const strokeToSvgPath = (
+  stroke: DoodleStroke,
+  width: number,
+  height: number,
+  transform: (x: number, y: number) => [number, number] = (x, y) => [x, y]
+): string => {
+  const points = stroke.points.length === 1 ? [stroke.points[0], stroke.points[0]] : stroke.points;
+  return points
+    .map(([u, v], i) => {
+      const [x, y] = transform(u, v);
+      return `${i === 0 ? 'M' : 'L'}${(x * width).toFixed(2)} ${(y * height).toFixed(2)}`;
+    })
+    .join(' ');
+};
+
+const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+// Box of a shape with positive size (arrows may point any way)
+export const getShapeBox = (shape: DoodleShape): Box => ({
+  x: Math.min(shape.x, shape.x + shape.width),
+  y: Math.min(shape.y, shape.y + shape.height),
+  width: Math.abs(shape.width),
+  height: Math.abs(shape.height),
+});
+
+// Each text line with its baseline's distance below the box top, in the unit of `fontSize`
+export const getTextBaselines = (shape: DoodleShape, fontSize: number) =>
+  (shape.text ?? '').split('\n').map((line, i) => ({ line, offset: (i * TEXT_LINE_HEIGHT + TEXT_BASELINE) * fontSize }));
+
+// SVG path data for an arrow from `from` to `to` (pixels), with a head sized to the line width
+export const arrowToSvgPath = (from: [number, number], to: [number, number], lineWidth: number): string => {
+  const headLength = Math.max(lineWidth * 4, 6);
+  const angle = Math.atan2(to[1] - from[1], to[0] - from[0]);
+  const barb = (side: number) =>
+    `${(to[0] - headLength * Math.cos(angle + side * Math.PI / 7)).toFixed(2)} ${(to[1] - headLength * Math.sin(angle + side * Math.PI / 7)).toFixed(2)}`;
+  const tip = `${to[0].toFixed(2)} ${to[1].toFixed(2)}`;
+  return `M${from[0].toFixed(2)} ${from[1].toFixed(2)} L${tip} M${barb(-1)} L${tip} L${barb(1)}`;
+};
+
+// Maps page fractions (as shown before the user's rotation) to fractions of the turned page
+const rotatePoint = (rotation: number) => (u: number, v: number): [number, number] => {
+  if (rotation === 90) return [1 - v, u];
+  if (rotation === 180) return [1 - u, 1 - v];
+  if (rotation === 270) return [v, 1 - u];
+  return [u, v];
+};
+
+// Draws a page's strokes and shapes as vector graphics over the page placed in `box`
+// (PDF coordinates, bottom-left origin), turned clockwise by the page rotation like the
+// preview shows it. `font` is needed once the page has text boxes.
+export const drawDoodlesToPdfPage = (sheet: PDFPage, pageItem: PageItem, box: Box, font: PDFFont | null) => {
+  const { doodles: strokes, shapes, rotation } = pageItem;
+  if (strokes.length === 0 && shapes.length === 0) return;
+
+  // Sizes are relative to the page's own width, which lies vertical when turned sideways
+  const isSideways = rotation === 90 || rotation === 270;
+  const pageWidth = isSideways ? box.height : box.width;
+  const pageAspect = (isSideways ? box.width : box.height) / pageWidth;
+  const transform = rotatePoint(rotation);
+
+  // Page fractions to pixels from the box's top-left corner, y down like SVG paths
+  const toLocal = (u: number, v: number): [number, number] => {
+    const [x, y] = transform(u, v);
+    return [x * box.width, y * box.height];
+  };
+  const toSheet = (u: number, v: number): [number, number] => {
+    const [x, y] = toLocal(u, v);
+    return [box.x + x, box.y + box.height - y];
+  };
+  const toSheetBox = (shape: DoodleShape): Box => {
+    const [ax, ay] = toSheet(shape.x, shape.y);
+    const [bx, by] = toSheet(shape.x + shape.width, shape.y + shape.height);
+    return { x: Math.min(ax, bx), y: Math.min(ay, by), width: Math.abs(ax - bx), height: Math.abs(ay - by) };
+  };
+  // SVG paths hang down from the anchor, so anchor at the box's top-left corner
+  const pathAnchor = { x: box.x, y: box.y + box.height };
+
+  // pdf-lib has no line join option for SVG paths; the graphics state carries it instead
+  sheet.pushOperators(pushGraphicsState(), setLineJoin(LineJoinStyle.Round));
+  for (const stroke of strokes) {
+    sheet.drawSvgPath(strokeToSvgPath(stroke, box.width, box.height, transform), {
+      ...pathAnchor,
+      borderColor: hexToRgb(stroke.color),
+      borderWidth: stroke.width * pageWidth,
+      borderOpacity: DOODLE_TOOL_OPACITY[stroke.tool],
+      borderLineCap: LineCapStyle.Round,
+    });
+  }
+
+  for (const shape of shapes) {
+    const color = hexToRgb(shape.color);
+    const lineWidth = shape.strokeWidth * pageWidth;
+
+    if (shape.kind === 'arrow') {
+      const path = arrowToSvgPath(toLocal(shape.x, shape.y), toLocal(shape.x + shape.width, shape.y + shape.height), lineWidth);
+      sheet.drawSvgPath(path, { ...pathAnchor, borderColor: color, borderWidth: lineWidth, borderLineCap: LineCapStyle.Round });
+    } else if (shape.kind === 'rect') {
+      sheet.drawRectangle({ ...toSheetBox(shape), borderColor: color, borderWidth: lineWidth });
+    } else if (shape.kind === 'highlight') {
+      sheet.drawRectangle({ ...toSheetBox(shape), color, opacity: HIGHLIGHT_OPACITY });
+    } else if (shape.kind === 'ellipse') {
+      const { x, y, width, height } = toSheetBox(shape);
+      sheet.drawEllipse({ x: x + width / 2, y: y + height / 2, xScale: width / 2, yScale: height / 2, borderColor: color, borderWidth: lineWidth });
+    } else if (shape.kind === 'text' && font) {
+      const size = (shape.fontSize ?? 0) * pageWidth;
+      for (const { line, offset } of getTextBaselines(shape, shape.fontSize ?? 0)) {
+        if (!line) continue;
+        const [x, y] = toSheet(shape.x, shape.y + offset / pageAspect);
+        sheet.drawText(toEncodableText(line, font), { x, y, size, font, color, rotate: degrees(-rotation) });
+      }
+    }
+  }
+  sheet.pushOperators(popGraphicsState());
+};
+
+// Distance from point p to segment ab
+const distanceToSegment = (p: [number, number], a: [number, number], b: [number, number]) => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+};
+
+// Object eraser: does a circle at (x, y) with `radius` touch the stroke? Page fractions throughout;
+// `aspect` is height / width so distances are measured in page-width units.
+export const strokeHitTest = (stroke: DoodleStroke, x: number, y: number, radius: number, aspect: number): boolean => {
+  const scale = (p: [number, number]): [number, number] => [p[0], p[1] * aspect];
+  const point = scale([x, y]);
+  const reach = radius + stroke.width / 2;
+
+  if (stroke.points.length === 1) return distanceToSegment(point, scale(stroke.points[0]), scale(stroke.points[0])) <= reach;
+  for (let i = 1; i < stroke.points.length; i++) {
+    if (distanceToSegment(point, scale(stroke.points[i - 1]), scale(stroke.points[i])) <= reach) return true;
+  }
+  return false;
+};
+
+// Same as strokeHitTest for shapes: arrows are hit along their line, everything else anywhere in its box
+export const shapeHitTest = (shape: DoodleShape, x: number, y: number, radius: number, aspect: number): boolean => {
+  if (shape.kind === 'arrow') {
+    const scale = (p: [number, number]): [number, number] => [p[0], p[1] * aspect];
+    const end: [number, number] = [shape.x + shape.width, shape.y + shape.height];
+    return distanceToSegment(scale([x, y]), scale([shape.x, shape.y]), scale(end)) <= radius + shape.strokeWidth / 2;
+  }
+  const box = getShapeBox(shape);
+  const reachY = radius / aspect;
+  return x >= box.x - radius && x <= box.x + box.width + radius && y >= box.y - reachY && y <= box.y + box.height + reachY;
+};
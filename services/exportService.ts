@@ -0,0 +1,72 @@
+import { ExportWorkerMessage, LayoutSettings, PageItem, SheetImageOptions, UploadedFile } from '../types';
+import { generateFinalPdf, renderSheetsToZip } from './pdfService';
+
+interface ExportOptions {
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+  images?: SheetImageOptions; // Export a ZIP of sheet images instead of the PDF
+}
+
+const abortError = () => new DOMException('Export cancelled', 'AbortError');
+
+// Builds the final PDF (or the ZIP of its sheets as images) in a Web Worker with progress
+// reporting and cancellation. Falls back to the main thread where module workers or
+// OffscreenCanvas aren't available.
+export const exportSheets = async (
+  pages: PageItem[],
+  files: Record<string, UploadedFile>,
+  layout: LayoutSettings,
+  { onProgress, signal, images }: ExportOptions = {}
+): Promise<Uint8Array> => {
+  if (signal?.aborted) throw abortError();
+
+  // Images go to screens and kiosks, not a duplex printer: every sheet, in order
+  const exportLayout: LayoutSettings = images ? { ...layout, duplex: 'off' } : layout;
+
+  // On the main thread cancelling is checked between pages
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    const pdfBytes = await generateFinalPdf(pages, files, exportLayout, onProgress, signal);
+    return images ? renderSheetsToZip(pdfBytes, images, onProgress, signal) : pdfBytes;
+  }
+
+  // Only what the exporter needs crosses the thread boundary: selected pages and the files they come from
+  const activePages = pages.filter(p => p.isSelected);
+  const usedFiles: Record<string, UploadedFile> = {};
+  for (const page of activePages) usedFiles[page.fileId] = files[page.fileId];
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./exportWorker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(abortError());
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ExportWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.done, message.total);
+      } else if (message.type === 'done') {
+        finish();
+        resolve(message.bytes);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Export worker crashed'));
+    };
+
+    worker.postMessage({ pages: activePages, files: usedFiles, layout: exportLayout, images });
+  });
+};
@@ -0,0 +1,24 @@
+import { ExportRequest, ExportWorkerMessage } from '../types';
+import { generateFinalPdf, renderSheetsToZip } from './pdfService';
+
+// Runs generateFinalPdf off the main thread so pixel loops and JPEG encoding don't freeze the UI.
+// Image exports render the finished sheets here too.
+// Cancelling is done by terminating this worker, which drops every canvas and buffer it holds.
+
+// The project compiles against the DOM lib, so describe the worker scope we use by hand
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<ExportRequest>) => void) | null;
+  postMessage: (message: ExportWorkerMessage, transfer?: Transferable[]) => void;
+};
+
+workerScope.onmessage = async (event) => {
+  const { pages, files, layout, images } = event.data;
+  const onProgress = (done: number, total: number) => workerScope.postMessage({ type: 'progress', done, total });
+  try {
+    const pdfBytes = await generateFinalPdf(pages, files, layout, onProgress);
+    const bytes = images ? await renderSheetsToZip(pdfBytes, images, onProgress) : pdfBytes;
+    workerScope.postMessage({ type: 'done', bytes }, [bytes.buffer]);
+  } catch (error) {
+    workerScope.postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
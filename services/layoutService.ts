@@ -0,0 +1,243 @@
+import { Box, HandoutSettings, LayoutSettings, PageItem, PaperSettings, PaperSize, SheetSide } from '../types';
+
+// PDF user space is 72 points per inch
+export const MM_TO_PT = 72 / 25.4;
+
+export const MAX_GRID_SIZE = 4;
+
+// Portrait dimensions in millimetres
+export const PAPER_SIZES: Record<Exclude<PaperSize, 'custom'>, { widthMm: number; heightMm: number }> = {
+  A3: { widthMm: 297, heightMm: 420 },
+  A4: { widthMm: 210, heightMm: 297 },
+  A5: { widthMm: 148, heightMm: 210 },
+  Letter: { widthMm: 215.9, heightMm: 279.4 },
+  Legal: { widthMm: 215.9, heightMm: 355.6 },
+};
+
+export const DEFAULT_PAPER: PaperSettings = {
+  size: 'A4',
+  orientation: 'portrait',
+  customWidthMm: 210,
+  customHeightMm: 297,
+  marginMm: 7,
+  gutterMm: 3.5,
+};
+
+export const DEFAULT_HANDOUT: HandoutSettings = {
+  notesPosition: 'right',
+  notesStyle: 'lines',
+  notesRatio: 0.5,
+  lineSpacingMm: 8,
+};
+
+// Sheet size in PDF points, with the orientation applied.
+// Booklets always print two pages side by side on a landscape sheet.
+export const getSheetSize = (layout: LayoutSettings): { width: number; height: number } => {
+  const { paper } = layout;
+  const orientation = layout.imposition === 'booklet' ? 'landscape' : paper.orientation;
+  const { widthMm, heightMm } = paper.size === 'custom'
+    ? { widthMm: paper.customWidthMm, heightMm: paper.customHeightMm }
+    : PAPER_SIZES[paper.size];
+
+  const shortSide = Math.min(widthMm, heightMm) * MM_TO_PT;
+  const longSide = Math.max(widthMm, heightMm) * MM_TO_PT;
+
+  return orientation === 'portrait'
+    ? { width: shortSide, height: longSide }
+    : { width: longSide, height: shortSide };
+};
+
+export const getItemsPerSheet = (layout: LayoutSettings): number =>
+  layout.imposition === 'booklet' ? 2 : layout.rows * layout.cols;
+
+// Cells split the printable area equally, separated by the gutter, and are returned in
+// reading order. A booklet spread is a 1x2 grid where the gutter is the spine.
+const getGridCells = (layout: LayoutSettings): Box[] => {
+  const { paper } = layout;
+  const isBooklet = layout.imposition === 'booklet';
+  const rows = isBooklet ? 1 : layout.rows;
+  const cols = isBooklet ? 2 : layout.cols;
+  const { width, height } = getSheetSize(layout);
+  const margin = paper.marginMm * MM_TO_PT;
+  const gutter = paper.gutterMm * MM_TO_PT;
+
+  const cellWidth = Math.max(1, (width - margin * 2 - gutter * (cols - 1)) / cols);
+  const cellHeight = Math.max(1, (height - margin * 2 - gutter * (rows - 1)) / rows);
+
+  const cells: Box[] = [];
+  for (let i = 0; i < rows * cols; i++) {
+    let row = Math.floor(i / cols);
+    let col = i % cols;
+    if (isBooklet) {
+      // Spreads always read left to right
+    } else if (layout.cellOrder === 'column-major') {
+      row = i % rows;
+      col = Math.floor(i / rows);
+    } else if (layout.cellOrder === 'right-to-left') {
+      col = cols - 1 - col;
+    }
+
+    cells.push({
+      x: margin + col * (cellWidth + gutter),
+      // PDF coordinates: Top row is highest Y
+      y: height - margin - (row + 1) * cellHeight - row * gutter,
+      width: cellWidth,
+      height: cellHeight,
+    });
+  }
+  return cells;
+};
+
+// Splits a handout cell into the page's part and its note area, the gutter between them
+const splitHandoutCell = (cell: Box, layout: LayoutSettings): [Box, Box] => {
+  const { notesPosition, notesRatio } = layout.handout;
+  const gap = layout.paper.gutterMm * MM_TO_PT;
+
+  if (notesPosition === 'right') {
+    const notesWidth = (cell.width - gap) * notesRatio;
+    const pageWidth = cell.width - gap - notesWidth;
+    return [{ ...cell, width: pageWidth }, { ...cell, x: cell.x + pageWidth + gap, width: notesWidth }];
+  }
+
+  // PDF y grows upwards, so the page keeps the top of the cell
+  const notesHeight = (cell.height - gap) * notesRatio;
+  return [
+    { ...cell, y: cell.y + notesHeight + gap, height: cell.height - gap - notesHeight },
+    { ...cell, height: notesHeight },
+  ];
+};
+
+// The single source of truth for where pages go on a sheet. Both the exporter and the
+// Dashboard preview use it: the i-th page of a sheet goes into cells[i]. Handout cells
+// leave room for the note areas.
+export const getSheetCells = (layout: LayoutSettings): Box[] => {
+  const cells = getGridCells(layout);
+  return layout.imposition === 'handout' ? cells.map(cell => splitHandoutCell(cell, layout)[0]) : cells;
+};
+
+// Note area of each handout cell, in the same order as getSheetCells
+export const getNoteAreas = (layout: LayoutSettings): Box[] =>
+  getGridCells(layout).map(cell => splitHandoutCell(cell, layout)[1]);
+
+// Where the rules of a note area go (PDF points): a row every line spacing from the top,
+// and for dot grids a column every line spacing from the left
+export const getNoteGrid = (area: Box, handout: HandoutSettings) => {
+  const spacing = Math.max(2, handout.lineSpacingMm) * MM_TO_PT;
+  const rows: number[] = [];
+  for (let y = area.y + area.height - spacing; y >= area.y; y -= spacing) rows.push(y);
+  const columns: number[] = [];
+  for (let x = area.x; x <= area.x + area.width; x += spacing) columns.push(x);
+  return { rows, columns };
+};
+
+// Saddle-stitch order for one signature. Each folded sheet has a front side
+// (outermost + innermost page) and a back side; null slots are blank padding pages.
+const imposeSignature = (pages: (PageItem | null)[]): (PageItem | null)[][] => {
+  const padded = [...pages];
+  while (padded.length % 4 !== 0) padded.push(null);
+
+  const n = padded.length;
+  const sides: (PageItem | null)[][] = [];
+  for (let sheet = 0; sheet < n / 4; sheet++) {
+    sides.push([padded[n - 1 - 2 * sheet], padded[2 * sheet]]); // Front
+    sides.push([padded[2 * sheet + 1], padded[n - 2 - 2 * sheet]]); // Back
+  }
+  return sides;
+};
+
+// Splits pages into printed sheet sides. Slot i of a side goes into getSheetCells(layout)[i].
+export const planSheets = (pages: PageItem[], layout: LayoutSettings): (PageItem | null)[][] => {
+  if (layout.imposition === 'booklet') {
+    const signatureLength = layout.bookletSignatureSheets > 0
+      ? layout.bookletSignatureSheets * 4
+      : Math.max(4, pages.length);
+    const sides: (PageItem | null)[][] = [];
+    for (let i = 0; i < pages.length; i += signatureLength) {
+      sides.push(...imposeSignature(pages.slice(i, i + signatureLength)));
+    }
+    return sides;
+  }
+
+  const itemsPerSheet = getItemsPerSheet(layout);
+  const sheets: (PageItem | null)[][] = [];
+  for (let i = 0; i < pages.length; i += itemsPerSheet) {
+    sheets.push(pages.slice(i, i + itemsPerSheet));
+  }
+  return sheets;
+};
+
+// Picks the quarter turn that lets a page fill its grid cell best. Pages that are already
+// upside down (180/270) stay upside down so a deliberate flip survives re-optimizing.
+export const getBestRotation = (
+  page: Pick<PageItem, 'width' | 'height' | 'rotation'>,
+  layout: LayoutSettings
+): PageItem['rotation'] => {
+  const [cell] = getSheetCells(layout);
+  const uprightScale = Math.min(cell.width / page.width, cell.height / page.height);
+  const sidewaysScale = Math.min(cell.width / page.height, cell.height / page.width);
+  const quarterTurn = sidewaysScale > uprightScale ? 90 : 0;
+  return (page.rotation >= 180 ? quarterTurn + 180 : quarterTurn) as PageItem['rotation'];
+};
+
+// Where a page lands in its cell once turned, centred and scaled to fit like the exporter does
+export const fitPageInCell = (page: Pick<PageItem, 'width' | 'height' | 'rotation'>, cell: Box): Box => {
+  const isSideways = page.rotation === 90 || page.rotation === 270;
+  const width = isSideways ? page.height : page.width;
+  const height = isSideways ? page.width : page.height;
+  const scale = Math.min(cell.width / width, cell.height / height);
+  return {
+    x: cell.x + (cell.width - width * scale) / 2,
+    y: cell.y + (cell.height - height * scale) / 2,
+    width: width * scale,
+    height: height * scale,
+  };
+};
+
+// Free space (PDF points) above and below the cell at `index` before the next cell, note area
+// or sheet edge, i.e. the gutter or the margin. Labels placed outside a cell must fit in it.
+export const getRoomAroundCell = (layout: LayoutSettings, index: number): { above: number; below: number } => {
+  const cells = getSheetCells(layout);
+  const obstacles = layout.imposition === 'handout' ? [...cells, ...getNoteAreas(layout)] : cells;
+  const cell = cells[index];
+  const top = cell.y + cell.height;
+  let above = getSheetSize(layout).height - top;
+  let below = cell.y;
+
+  for (const other of obstacles) {
+    // Only boxes in the same column can be in the way
+    if (other === cell || other.x >= cell.x + cell.width || other.x + other.width <= cell.x) continue;
+    if (other.y >= top) above = Math.min(above, other.y - top);
+    else if (other.y + other.height <= cell.y) below = Math.min(below, cell.y - other.y - other.height);
+  }
+
+  return { above, below };
+};
+
+// Booklets are always printed on both sides of the paper
+const isTwoSided = (layout: LayoutSettings): boolean =>
+  layout.duplex !== 'off' || layout.imposition === 'booklet';
+
+// Physical sheet (1-based) that the planned side at `sideIndex` is printed on. Stays the same
+// whichever duplex pass is exported, so stamped sheet numbers match across passes.
+export const getSheetNumber = (sideIndex: number, layout: LayoutSettings): number =>
+  isTwoSided(layout) ? Math.floor(sideIndex / 2) + 1 : sideIndex + 1;
+
+// Applies the duplex settings to planned sheet sides: pads to an even count so every
+// front keeps its back, then keeps only the sides of the requested manual pass.
+export const selectDuplexSides = (sheets: (PageItem | null)[][], layout: LayoutSettings): SheetSide[] => {
+  if (!isTwoSided(layout)) {
+    return sheets.map((slots, i) => ({ slots, isBack: false, sheetNumber: getSheetNumber(i, layout) }));
+  }
+
+  const padded = sheets.length % 2 === 0 ? sheets : [...sheets, []];
+  const sides = padded.map((slots, i) => ({ slots, isBack: i % 2 === 1, sheetNumber: getSheetNumber(i, layout) }));
+
+  if (layout.duplex === 'odd') return sides.filter(side => !side.isBack);
+  // Backs go in reverse so the flipped stack of fronts lines up again
+  if (layout.duplex === 'even') return sides.filter(side => side.isBack).reverse();
+  return sides;
+};
+
+// Physical sheets of paper used for a number of planned sides
+export const countPhysicalSheets = (sideCount: number, layout: LayoutSettings): number =>
+  isTwoSided(layout) ? Math.ceil(sideCount / 2) : sideCount;
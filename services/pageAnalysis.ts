@@ -0,0 +1,212 @@
+import { AutoFilterDecision, PageAnalysis, PageFilters, PageItem } from '../types';
+
+// Backgrounds darker than this (0-255 luminance) are treated as dark-theme slides
+const DARK_BACKGROUND_THRESHOLD = 100;
+
+// Sampling every few pixels is plenty for a histogram and keeps big thumbnails cheap
+const SAMPLE_STEP = 3;
+
+// The perceptual hash compares neighbouring cells of a HASH_SIZE x HASH_SIZE grid (256 bits).
+// Slides further apart than this many bits are different slides, not builds of one.
+const HASH_SIZE = 16;
+const NEAR_DUPLICATE_DISTANCE = 16;
+
+// Light pages with a near-white background and this much contrast already print cleanly,
+// so they keep neutral filters and can stay vector pages
+const CLEAN_PAPER_LUMINANCE = 240;
+const CLEAN_SPREAD = 200;
+
+// Luminance difference from the background that counts as ink rather than paper noise
+const INK_DELTA = 48;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Returns the luminance below which `fraction` of the samples fall
+const percentile = (histogram: Uint32Array, total: number, fraction: number): number => {
+  let seen = 0;
+  for (let i = 0; i < histogram.length; i++) {
+    seen += histogram[i];
+    if (seen >= total * fraction) return i;
+  }
+  return histogram.length - 1;
+};
+
+// Luminance histogram of a sample of the page's pixels
+const measureLuminance = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const histogram = new Uint32Array(256);
+  let total = 0;
+
+  for (let y = 0; y < height; y += SAMPLE_STEP) {
+    for (let x = 0; x < width; x += SAMPLE_STEP) {
+      const i = (y * width + x) * 4;
+      const luminance = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+      histogram[luminance]++;
+      total++;
+    }
+  }
+
+  // The background is the most common luminance
+  let backgroundLuminance = 255;
+  for (let i = 0, best = -1; i < histogram.length; i++) {
+    if (histogram[i] > best) {
+      best = histogram[i];
+      backgroundLuminance = i;
+    }
+  }
+
+  return { histogram, total, backgroundLuminance };
+};
+
+// Decides whether the page has a dark background. Suggested filters push the background
+// towards white paper and stretch the remaining range so faint content still prints.
+// Pages that already print cleanly get neutral filters.
+const decideAutoFilters = (histogram: Uint32Array, total: number, backgroundLuminance: number): AutoFilterDecision => {
+  const isDarkBackground = backgroundLuminance < DARK_BACKGROUND_THRESHOLD;
+  const spread = Math.max(1, percentile(histogram, total, 0.98) - percentile(histogram, total, 0.02));
+
+  if (!isDarkBackground && backgroundLuminance >= CLEAN_PAPER_LUMINANCE && spread >= CLEAN_SPREAD) {
+    const suggested: PageFilters = { invert: false, grayscale: false, whiteness: 0, blackness: 0 };
+    return { isDarkBackground, backgroundLuminance, suggested };
+  }
+
+  // Luminance of the paper after the (possible) invert
+  const paperLuminance = Math.max(1, isDarkBackground ? 255 - backgroundLuminance : backgroundLuminance);
+  const whiteness = clamp(Math.round((255 / paperLuminance - 1) * 100), 0, 40);
+  const blackness = clamp(Math.round((255 / spread - 1) * 100), 0, 80);
+
+  const suggested: PageFilters = {
+    invert: isDarkBackground,
+    // Inverted colours come out as odd hues; grey keeps dark slides readable
+    grayscale: isDarkBackground,
+    whiteness,
+    blackness,
+  };
+
+  return { isDarkBackground, backgroundLuminance, suggested };
+};
+
+// Share of samples that stand out from the background. Paper texture and scanner noise stay
+// within INK_DELTA of it, so a scanned empty back still measures close to zero.
+const measureInkCoverage = (histogram: Uint32Array, total: number, backgroundLuminance: number): number => {
+  let ink = 0;
+  for (let i = 0; i < histogram.length; i++) {
+    if (Math.abs(i - backgroundLuminance) > INK_DELTA) ink += histogram[i];
+  }
+  return total > 0 ? ink / total : 0;
+};
+
+// Difference hash: shrink the page to a (HASH_SIZE + 1) x HASH_SIZE luminance grid and record
+// whether each cell is brighter than its right neighbour. Builds of the same slide only flip
+// the few bits where new content appeared.
+export const computePerceptualHash = (ctx: CanvasRenderingContext2D, width: number, height: number): string => {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const cols = HASH_SIZE + 1;
+  const sums = new Float64Array(cols * HASH_SIZE);
+  const counts = new Uint32Array(cols * HASH_SIZE);
+
+  for (let y = 0; y < height; y += SAMPLE_STEP) {
+    const row = Math.min(HASH_SIZE - 1, Math.floor(y / height * HASH_SIZE));
+    for (let x = 0; x < width; x += SAMPLE_STEP) {
+      const col = Math.min(cols - 1, Math.floor(x / width * cols));
+      const i = (y * width + x) * 4;
+      sums[row * cols + col] += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      counts[row * cols + col]++;
+    }
+  }
+
+  const mean = (cell: number) => counts[cell] ? sums[cell] / counts[cell] : 0;
+  let hex = '';
+  for (let row = 0; row < HASH_SIZE; row++) {
+    for (let col = 0; col < HASH_SIZE; col += 4) {
+      let nibble = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const cell = row * cols + col + bit;
+        nibble = (nibble << 1) | (mean(cell) > mean(cell + 1) ? 1 : 0);
+      }
+      hex += nibble.toString(16);
+    }
+  }
+  return hex;
+};
+
+export const analyzePage = (ctx: CanvasRenderingContext2D, width: number, height: number): PageAnalysis => {
+  const { histogram, total, backgroundLuminance } = measureLuminance(ctx, width, height);
+  return {
+    autoFilters: decideAutoFilters(histogram, total, backgroundLuminance),
+    perceptualHash: computePerceptualHash(ctx, width, height),
+    inkCoverage: measureInkCoverage(histogram, total, backgroundLuminance),
+  };
+};
+
+// Pages restored from older sessions or projects may lack newer measurements
+export const needsAnalysis = (page: PageItem) => !page.autoFilters || !page.perceptualHash || page.inkCoverage == null;
+
+// Blank separators and empty scanned backs: at most `threshold` (0-1) of the page is ink
+export const isBlankPage = (page: PageItem, threshold: number) => page.inkCoverage != null && page.inkCoverage <= threshold;
+
+// Merges a late analysis into a page. Only filters that still hold their import defaults
+// and weren't edited per page take the suggestion, so earlier user tweaks win.
+// Pages analyzed before (e.g. restored from a session) keep their filters and only gain the measurements.
+export const applyPageAnalysis = (
+  page: PageItem,
+  analysis: PageAnalysis,
+  defaults: PageFilters
+): PageItem => {
+  const measurements = { perceptualHash: analysis.perceptualHash, inkCoverage: analysis.inkCoverage };
+  if (page.autoFilters) return { ...page, ...measurements };
+
+  const decision = analysis.autoFilters;
+  const pick = <K extends keyof PageFilters>(key: K): PageFilters[K] =>
+    !page.filterOverrides.includes(key) && page.filters[key] === defaults[key]
+      ? decision.suggested[key]
+      : page.filters[key];
+
+  return {
+    ...page,
+    filters: {
+      invert: pick('invert'),
+      grayscale: pick('grayscale'),
+      whiteness: pick('whiteness'),
+      blackness: pick('blackness'),
+    },
+    autoFilters: decision,
+    ...measurements,
+  };
+};
+
+const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+// Runs of consecutive pages (deck order, same file) that look nearly identical, e.g. the
+// steps of an animation build. Only runs of two or more pages are returned; the last page
+// of each run is the most complete one.
+export const findNearDuplicateGroups = (pages: PageItem[]): PageItem[][] => {
+  const groups: PageItem[][] = [];
+  let run: PageItem[] = [];
+
+  for (const page of pages) {
+    const previous = run[run.length - 1];
+    const continuesRun = previous && page.perceptualHash && previous.perceptualHash
+      && previous.fileId === page.fileId
+      && hammingDistance(previous.perceptualHash, page.perceptualHash) <= NEAR_DUPLICATE_DISTANCE;
+
+    if (!continuesRun) {
+      if (run.length > 1) groups.push(run);
+      run = [];
+    }
+    run.push(page);
+  }
+  if (run.length > 1) groups.push(run);
+
+  return groups;
+};
@@ -1,53 +1,176 @@
 
 import * as pdfjsLib from 'pdfjs-dist';
-import { PDFDocument, rgb } from 'pdf-lib';
-import { PageItem, UploadedFile, LayoutSettings } from '../types';
+import { PDFDocument, PDFPage, StandardFonts, degrees, rgb } from 'pdf-lib';
+import { zipSync } from 'fflate';
+import { Box, HandoutSettings, PageAnalysis, PageItem, PageFilters, PageRenderMode, SheetImageOptions, UploadedFile, LayoutSettings } from '../types';
+import {
+  MM_TO_PT, countPhysicalSheets, getNoteAreas, getNoteGrid, getRoomAroundCell, getSheetCells, getSheetSize, planSheets, selectDuplexSides,
+} from './layoutService';
+import { analyzePage } from './pageAnalysis';
+import { drawDoodlesToPdfPage } from './doodleService';
+import {
+  drawPageNumber, drawSheetStamps, drawWatermark, embedWatermarkImage, getPageNumberLabels, getStampContext, hasSheetStamps,
+} from './stampService';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// Configure PDF.js worker. It ships with the build, so the app works offline.
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// CMaps and standard fonts are copied into the build under /pdfjs/ (see vite.config.ts).
+// Resolved against the current location so they also load from inside the export worker.
+const pdfjsAssetUrl = (dir: string) => new URL(`${import.meta.env.BASE_URL}pdfjs/${dir}/`, self.location.href).href;
+
+// Export rendering also runs inside a Web Worker, where there is no DOM
+const hasDocument = typeof document !== 'undefined';
+
+type RenderCanvas = OffscreenCanvas | HTMLCanvasElement;
+type RenderContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+// Prefers OffscreenCanvas so the same code works on the main thread and in the export worker
+const createCanvas = (width: number, height: number): { canvas: RenderCanvas; context: RenderContext } => {
+  const canvas: RenderCanvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const context = canvas.getContext('2d') as RenderContext | null;
+  if (!context) throw new Error('Could not get canvas context');
+  return { canvas, context };
+};
 
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.8.69/pdf.worker.min.mjs`;
+// Lets pdf.js create its scratch canvases without `document` (used inside the export worker)
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    return createCanvas(width, height);
+  }
 
+  reset(canvasAndContext: { canvas: RenderCanvas }, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: RenderCanvas | null; context: RenderContext | null }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+const openPdfDocument = (fileData: ArrayBuffer) => pdfjsLib.getDocument({
+  data: fileData.slice(0), // pdf.js transfers the buffer to its worker, keep ours intact
+  cMapUrl: pdfjsAssetUrl('cmaps'),
+  cMapPacked: true,
+  standardFontDataUrl: pdfjsAssetUrl('standard_fonts'),
+  // Without a document there is no FontFace loading; pdf.js draws glyphs as paths instead
+  ...(hasDocument ? {} : { CanvasFactory: OffscreenCanvasFactory, disableFontFace: true }),
+}).promise;
+
+// One parsed pdf.js document per uploaded file, shared by thumbnails and high-res renders.
+// Keyed by UploadedFile.id; entries live until the file is removed or the app is reset.
+const documentCache = new Map<string, Promise<pdfjsLib.PDFDocumentProxy>>();
+
+const getPdfDocument = (file: UploadedFile): Promise<pdfjsLib.PDFDocumentProxy> => {
+  let cached = documentCache.get(file.id);
+  if (!cached) {
+    cached = openPdfDocument(file.data);
+    // Don't keep a failed parse around, a later call may retry
+    cached.catch(() => documentCache.delete(file.id));
+    documentCache.set(file.id, cached);
+  }
+  return cached;
+};
+
+export const releasePdfDocument = async (fileId: string): Promise<void> => {
+  const cached = documentCache.get(fileId);
+  documentCache.delete(fileId);
+  const pdf = await cached?.catch(() => null);
+  await pdf?.destroy();
+};
+
+export const releaseAllPdfDocuments = async (): Promise<void> => {
+  await Promise.all([...documentCache.keys()].map(releasePdfDocument));
+};
+
+// Photos and screenshots that can be added next to PDFs, each as a one-page source
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const isImageFile = (file: File) => IMAGE_TYPES.includes(file.type);
+
+// Pixel density images are laid out at, so a phone photo becomes a page of sensible size
+const IMAGE_DPI = 150;
+
+// Wraps an image in a one-page PDF so filters, rotation, doodles and layout treat it like any
+// other page. The bitmap is decoded with its EXIF orientation applied and re-encoded, since
+// pdf-lib neither rotates JPEGs nor reads WebP. PNGs stay PNG to keep screenshots crisp.
+const imageToPdf = async (file: File): Promise<ArrayBuffer> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const { canvas, context } = createCanvas(bitmap.width, bitmap.height);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const pdfDoc = await PDFDocument.create();
+  const image = file.type === 'image/png'
+    ? await pdfDoc.embedPng(await canvasToBytes(canvas, 'image/png'))
+    : await pdfDoc.embedJpg(await canvasToBytes(canvas, 'image/jpeg', 0.92));
+  releaseCanvas(canvas);
+
+  const width = (image.width * 72) / IMAGE_DPI;
+  const height = (image.height * 72) / IMAGE_DPI;
+  pdfDoc.addPage([width, height]).drawImage(image, { x: 0, y: 0, width, height });
+  const bytes = await pdfDoc.save();
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
+
+// Loads a PDF, or an image as a one-page PDF
 export const loadPdfFile = async (file: File): Promise<UploadedFile> => {
+  const kind = isImageFile(file) ? 'image' : 'pdf';
   try {
-    const arrayBuffer = await file.arrayBuffer();
-    
-    // Load document to get page count
-    const loadingTask = pdfjsLib.getDocument({ 
-        data: arrayBuffer.slice(0),
-        cMapUrl: 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.8.69/cmaps/',
-        cMapPacked: true,
-    });
+    const arrayBuffer = kind === 'image' ? await imageToPdf(file) : await file.arrayBuffer();
     
-    const pdf = await loadingTask.promise;
+    // Load document to get page count; it stays cached for the thumbnails that follow
+    const pdf = await openPdfDocument(arrayBuffer);
+    const id = crypto.randomUUID();
+    documentCache.set(id, Promise.resolve(pdf));
 
     return {
-      id: crypto.randomUUID(),
+      id,
       name: file.name,
+      kind,
       size: file.size,
       pageCount: pdf.numPages,
       data: arrayBuffer,
     };
   } catch (error) {
     console.error("Detailed PDF Load Error:", error);
-    throw new Error(`Failed to parse PDF: ${error instanceof Error ? error.message : "Unknown error"}`);
+    const what = kind === 'image' ? 'image' : 'PDF';
+    throw new Error(`Failed to parse ${what}: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
 };
 
-export const renderPageToThumbnail = async (
-  fileData: ArrayBuffer, 
-  pageIndex: number,
+// Page sizes at thumbnail scale, read without rendering so the Dashboard can open right away
+export const getPageSizes = async (
+  file: UploadedFile,
   scale: number = 0.5
-): Promise<{ dataUrl: string; width: number; height: number }> => {
-  const loadingTask = pdfjsLib.getDocument({ 
-    data: fileData.slice(0),
-    cMapUrl: 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.8.69/cmaps/',
-    cMapPacked: true,
-  });
-  const pdf = await loadingTask.promise;
+): Promise<{ width: number; height: number }[]> => {
+  const pdf = await getPdfDocument(file);
+  const sizes = [];
+  for (let i = 0; i < pdf.numPages; i++) {
+    const page = await pdf.getPage(i + 1); // pdfjs is 1-based
+    const { width, height } = page.getViewport({ scale });
+    sizes.push({ width, height });
+  }
+  return sizes;
+};
+
+// Renders a page onto a DOM canvas (main thread only)
+const renderPageToCanvas = async (file: UploadedFile, pageIndex: number, scale: number) => {
+  const pdf = await getPdfDocument(file);
   const page = await pdf.getPage(pageIndex + 1); // pdfjs is 1-based
 
   const viewport = page.getViewport({ scale });
   const canvas = document.createElement('canvas');
-  const context = canvas.getContext('2d');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
 
   if (!context) throw new Error('Could not get canvas context');
 
@@ -58,17 +181,81 @@ export const renderPageToThumbnail = async (
     canvasContext: context,
     viewport: viewport,
   } as any).promise;
+  page.cleanup();
+
+  return { canvas, context };
+};
+
+// Renders a thumbnail as a blob URL; the caller owns it and must revoke it
+export const renderPageToThumbnail = async (
+  file: UploadedFile, 
+  pageIndex: number,
+  scale: number = 0.5,
+  options: { analyze?: boolean } = {}
+): Promise<{ url: string; width: number; height: number; analysis?: PageAnalysis }> => {
+  const { canvas, context } = await renderPageToCanvas(file, pageIndex, scale);
+  const { width, height } = canvas;
+
+  const analysis = options.analyze ? analyzePage(context, width, height) : undefined;
+  const blob = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(b => b ? resolve(b) : reject(new Error('Thumbnail encoding failed')), 'image/jpeg', 0.8));
+  releaseCanvas(canvas);
 
   return {
-    dataUrl: canvas.toDataURL('image/jpeg', 0.8),
-    width: viewport.width,
-    height: viewport.height
+    url: URL.createObjectURL(blob),
+    width,
+    height,
+    analysis,
   };
 };
 
+// Analysis alone, for pages that haven't scrolled into view yet. A small render is enough
+// for the luminance histogram and the perceptual hash.
+export const analyzePageImage = async (file: UploadedFile, pageIndex: number): Promise<PageAnalysis> => {
+  const { canvas, context } = await renderPageToCanvas(file, pageIndex, 0.25);
+  const analysis = analyzePage(context, canvas.width, canvas.height);
+  releaseCanvas(canvas);
+  return analysis;
+};
+
+// High-resolution render for export. Works without a DOM and returns the canvas itself,
+// so the caller can draw it straight onto the output canvas.
+const renderPageForExport = async (
+  file: UploadedFile,
+  pageIndex: number,
+  scale: number
+): Promise<{ canvas: RenderCanvas; width: number; height: number }> => {
+  const pdf = await getPdfDocument(file);
+  const page = await pdf.getPage(pageIndex + 1); // pdfjs is 1-based
+  const viewport = page.getViewport({ scale });
+  const { canvas, context } = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+  await page.render({
+    canvasContext: context,
+    viewport: viewport,
+  } as any).promise;
+  page.cleanup();
+
+  return { canvas, width: canvas.width, height: canvas.height };
+};
+
+const canvasToBytes = async (canvas: RenderCanvas, type: 'image/jpeg' | 'image/png', quality?: number): Promise<Uint8Array> => {
+  const blob = 'convertToBlob' in canvas
+    ? await canvas.convertToBlob({ type, quality })
+    : await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(b => b ? resolve(b) : reject(new Error(`${type} encoding failed`)), type, quality));
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+// Frees canvas memory right away instead of waiting for GC; matters for long decks in the worker
+const releaseCanvas = (canvas: RenderCanvas) => {
+  canvas.width = 0;
+  canvas.height = 0;
+};
+
 // Applies the visual filters to a canvas context
 const applyFiltersToContext = (
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   width: number,
   height: number,
   filters: PageItem['filters']
@@ -116,10 +303,49 @@ const applyFiltersToContext = (
   ctx.putImageData(imageData, 0, 0);
 };
 
+// CSS filter equivalent of applyFiltersToContext, used for live previews
+export const toCssFilter = (filters: PageFilters): string => `
+  grayscale(${filters.grayscale ? 1 : 0})
+  invert(${filters.invert ? 1 : 0})
+  brightness(${1 + (filters.whiteness / 100)})
+  contrast(${1 + (filters.blackness / 100)})
+`;
+
+// Filters that leave the page pixels untouched
+export const hasNeutralFilters = (filters: PageFilters): boolean =>
+  !filters.invert && !filters.grayscale && filters.whiteness === 0 && filters.blackness === 0;
+
+// Decides whether a page can be placed as the original vector page or has to be rasterized.
+// Only filters need pixels; rotation and scaling are plain page transforms and doodles
+// are drawn as vector paths either way.
+export const getPageRenderMode = (pageItem: PageItem, layout: LayoutSettings): PageRenderMode => {
+  if (!layout.vectorOutput) return 'raster';
+  if (!hasNeutralFilters(pageItem.filters)) return 'raster';
+  return 'vector';
+};
+
+// Handout note area: light ruled lines or a dot grid, nothing for blank space
+const drawNoteArea = (sheet: PDFPage, area: Box, handout: HandoutSettings) => {
+  const { rows, columns } = getNoteGrid(area, handout);
+  const color = rgb(0.75, 0.75, 0.75);
+
+  if (handout.notesStyle === 'lines') {
+    for (const y of rows) {
+      sheet.drawLine({ start: { x: area.x, y }, end: { x: area.x + area.width, y }, thickness: 0.5, color });
+    }
+  } else if (handout.notesStyle === 'dots') {
+    for (const y of rows) {
+      for (const x of columns) sheet.drawCircle({ x, y, size: 0.6, color });
+    }
+  }
+};
+
 export const generateFinalPdf = async (
   pages: PageItem[],
   files: Record<string, UploadedFile>,
-  layout: LayoutSettings
+  layout: LayoutSettings,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal // Checked between pages; only the main-thread fallback needs it
 ): Promise<Uint8Array> => {
   const pdfDoc = await PDFDocument.create();
 
@@ -131,170 +357,244 @@ export const generateFinalPdf = async (
   }
 
   // Helper to process a single visual page item into an embeddable image
-  // This bakes filters, rotation, and doodles into a single JPG
+  // This bakes filters and rotation into a single JPG; doodles go on top as vector paths
   const processPageImage = async (pageItem: PageItem): Promise<Uint8Array> => {
     // 1. High quality render from PDF
     const file = files[pageItem.fileId];
-    const { dataUrl, width, height } = await renderPageToThumbnail(file.data, pageItem.originalPageIndex, 1.5);
-    
-    // 2. Load base PDF image
-    const img = new Image();
-    img.src = dataUrl;
-    await new Promise(r => img.onload = r);
-
-    // 3. Setup Canvas (Handling Rotation)
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error("Canvas context failed");
+    const { canvas: pageCanvas, width, height } = await renderPageForExport(file, pageItem.originalPageIndex, 1.5);
 
+    // 2. Setup Canvas (Handling Rotation)
     const isRotated90or270 = pageItem.rotation === 90 || pageItem.rotation === 270;
     
     // Swap width/height if rotated 90 or 270
-    canvas.width = isRotated90or270 ? height : width;
-    canvas.height = isRotated90or270 ? width : height;
+    const { canvas, context: ctx } = createCanvas(
+      isRotated90or270 ? height : width,
+      isRotated90or270 ? width : height
+    );
 
-    // Apply Rotation to Context
+    // 3. Apply Rotation to Context
     ctx.translate(canvas.width / 2, canvas.height / 2);
     ctx.rotate((pageItem.rotation * Math.PI) / 180);
-    ctx.drawImage(img, -width / 2, -height / 2);
+    ctx.drawImage(pageCanvas, -width / 2, -height / 2);
     
     ctx.setTransform(1, 0, 0, 1, 0, 0);
+    releaseCanvas(pageCanvas);
 
     // 4. Apply Filters
     applyFiltersToContext(ctx, canvas.width, canvas.height, pageItem.filters);
 
-    // 5. Apply Drawing / Doodle Layer
-    if (pageItem.drawingDataUrl) {
-        const doodleImg = new Image();
-        doodleImg.src = pageItem.drawingDataUrl;
-        await new Promise(r => doodleImg.onload = r);
-        
-        ctx.translate(canvas.width / 2, canvas.height / 2);
-        ctx.rotate((pageItem.rotation * Math.PI) / 180);
-        // Doodle is drawn on original dimensions
-        ctx.drawImage(doodleImg, -width / 2, -height / 2, width, height);
-        ctx.setTransform(1, 0, 0, 1, 0, 0);
-    }
+    // Return compressed JPEG bytes
+    const bytes = await canvasToBytes(canvas, 'image/jpeg', 0.85);
+    releaseCanvas(canvas);
+    return bytes;
+  };
 
-    // 6. Draw Page Number (If enabled)
-    if (layout.showPageNumbers) {
-      const pageNum = (pageItem.originalPageIndex + 1).toString();
-      const fontSize = Math.max(12, Math.floor(canvas.height * 0.03));
-      
-      ctx.font = `bold ${fontSize}px sans-serif`;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'bottom';
-      
-      // Calculate position (bottom center)
-      const x = canvas.width / 2;
-      const y = canvas.height - (fontSize / 2);
-      
-      // Draw pill background
-      const textWidth = ctx.measureText(pageNum).width;
-      const padding = fontSize * 0.6;
-      const pillHeight = fontSize * 1.4;
-      
-      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
-      ctx.beginPath();
-      ctx.roundRect(x - (textWidth/2) - (padding/2), y - pillHeight + (fontSize * 0.2), textWidth + padding, pillHeight, pillHeight/2);
-      ctx.fill();
-
-      // Draw Text
-      ctx.fillStyle = '#000000';
-      ctx.fillText(pageNum, x, y);
+  // Source documents for vector placement, loaded once per file.
+  // null marks files pdf-lib can't read (e.g. encrypted) so we fall back to raster.
+  const sourceDocs: Record<string, PDFDocument | null> = {};
+
+  const getSourceDoc = async (fileId: string): Promise<PDFDocument | null> => {
+    if (!(fileId in sourceDocs)) {
+      try {
+        sourceDocs[fileId] = await PDFDocument.load(files[fileId].data);
+      } catch (error) {
+        console.warn("Vector placement unavailable, rasterizing instead:", error);
+        sourceDocs[fileId] = null;
+      }
     }
+    return sourceDocs[fileId];
+  };
 
-    // Return compressed JPEG bytes
-    const processedDataUrl = canvas.toDataURL('image/jpeg', 0.85);
-    const base64 = processedDataUrl.split(',')[1];
-    const binaryString = window.atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
+  const { pageNumbers } = layout;
+  const labelFont = pageNumbers.enabled ? await pdfDoc.embedFont(StandardFonts.HelveticaBold) : null;
+  const pageLabels = getPageNumberLabels(activePages, pageNumbers);
+  // Regular Helvetica serves doodle text boxes, headers, footers and the text watermark
+  const { stamps, watermark } = layout;
+  const needsTextFont = activePages.some(p => p.shapes.some(s => s.kind === 'text'))
+    || hasSheetStamps(stamps)
+    || watermark.type === 'text';
+  const textFont = needsTextFont ? await pdfDoc.embedFont(StandardFonts.Helvetica) : null;
+  const watermarkImage = watermark.type === 'image' && watermark.imageDataUrl
+    ? await embedWatermarkImage(pdfDoc, watermark.imageDataUrl)
+    : null;
+
+  // Places the original page into the box (PDF coordinates, bottom-left origin).
+  // Returns where the page landed, or null when it can't be embedded so the caller can rasterize it.
+  const placeVectorPage = async (
+    sheet: PDFPage,
+    pageItem: PageItem,
+    box: Box
+  ): Promise<Box | null> => {
+    const sourceDoc = await getSourceDoc(pageItem.fileId);
+    if (!sourceDoc) return null;
+
+    const sourcePage = sourceDoc.getPage(pageItem.originalPageIndex);
+    const crop = sourcePage.getCropBox();
+    const embeddedPage = await pdfDoc.embedPage(sourcePage, {
+      left: crop.x,
+      bottom: crop.y,
+      right: crop.x + crop.width,
+      top: crop.y + crop.height,
+    });
+
+    // pdf.js thumbnails already honour the page's own /Rotate, the raw embedded page does not.
+    // /Rotate can be negative or past 360 (-90, 450), so bring the sum back to 0-359.
+    const angle = pageItem.rotation + sourcePage.getRotation().angle;
+    const rotation = ((angle % 360) + 360) % 360;
+    const isSideways = rotation === 90 || rotation === 270;
+    const rotatedWidth = isSideways ? embeddedPage.height : embeddedPage.width;
+    const rotatedHeight = isSideways ? embeddedPage.width : embeddedPage.height;
+
+    const scale = Math.min(box.width / rotatedWidth, box.height / rotatedHeight);
+    const drawWidth = rotatedWidth * scale;
+    const drawHeight = rotatedHeight * scale;
+    const left = box.x + (box.width - drawWidth) / 2;
+    const bottom = box.y + (box.height - drawHeight) / 2;
+
+    // pdf-lib rotates counter-clockwise around (x, y), so move the anchor to the
+    // corner that lands bottom-left after a clockwise turn
+    let x = left;
+    let y = bottom;
+    if (rotation === 90) y = bottom + drawHeight;
+    if (rotation === 180) { x = left + drawWidth; y = bottom + drawHeight; }
+    if (rotation === 270) x = left + drawWidth;
+
+    sheet.drawPage(embeddedPage, {
+      x,
+      y,
+      xScale: scale,
+      yScale: scale,
+      rotate: degrees(-rotation),
+    });
+
+    return { x: left, y: bottom, width: drawWidth, height: drawHeight };
   };
 
-  // N-Up Logic
-  const itemsPerPage = layout.nUp;
-  const chunkedPages = [];
-  
-  for (let i = 0; i < activePages.length; i += itemsPerPage) {
-    chunkedPages.push(activePages.slice(i, i + itemsPerPage));
-  }
+  // N-Up / Booklet Logic: split the selection into sheet sides, then place each slot in its cell.
+  // Duplex settings decide which of those sides this export contains.
+  const plannedSides = planSheets(activePages, layout);
+  const sides = selectDuplexSides(plannedSides, layout);
+  // {totalSheets} counts paper, not the sides of this pass
+  const totalSheets = countPhysicalSheets(plannedSides.length, layout);
 
-  // A4 Standard Dimensions
-  const PAGE_WIDTH = 595.28;
-  const PAGE_HEIGHT = 841.89;
-  const MARGIN = 20;
+  // Sheet size, margins and gutter come from the paper settings
+  const sheetSize = getSheetSize(layout);
+  const cells = getSheetCells(layout);
+  const noteAreas = layout.imposition === 'handout' ? getNoteAreas(layout) : null;
+  const cellRooms = cells.map((_, i) => getRoomAroundCell(layout, i));
 
-  for (const chunk of chunkedPages) {
-    const page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
-    
-    // Dynamic Grid Calculation
-    // We try to fill the page logically based on N
-    let cols = 1;
-    let rows = 1;
-
-    switch(itemsPerPage) {
-        case 1: cols = 1; rows = 1; break;
-        case 2: cols = 1; rows = 2; break; // 1x2 split
-        case 3: cols = 1; rows = 3; break; // 1x3 stacked
-        case 4: cols = 2; rows = 2; break; // 2x2
-        case 5: cols = 2; rows = 3; break; // 2x3 (one empty)
-        case 6: cols = 2; rows = 3; break; // 2x3
-        case 7: cols = 2; rows = 4; break; // 2x4
-        case 8: cols = 2; rows = 4; break; // 2x4
-        default: cols = 1; rows = 1;
+  const totalToPlace = sides.reduce((sum, side) => sum + side.slots.filter(Boolean).length, 0);
+  let placedCount = 0;
+  onProgress?.(0, totalToPlace);
+
+  const date = new Date().toLocaleDateString();
+
+  for (const { slots, isBack, sheetNumber } of sides) {
+    const page = pdfDoc.addPage([sheetSize.width, sheetSize.height]);
+
+    // Flipping the stack over the short edge turns the backs upside down
+    if (isBack && layout.duplexFlip === 'short-edge') {
+      page.setRotation(degrees(180));
     }
 
-    const cellWidth = (PAGE_WIDTH - (MARGIN * 2)) / cols;
-    const cellHeight = (PAGE_HEIGHT - (MARGIN * 2)) / rows;
-
-    for (let i = 0; i < chunk.length; i++) {
-      const pageItem = chunk[i];
-      const imageBytes = await processPageImage(pageItem);
-      const embeddedImage = await pdfDoc.embedJpg(imageBytes);
-
-      // Determine Grid Position
-      const colIndex = i % cols;
-      const rowIndex = Math.floor(i / cols);
-
-      // Scale image to fit cell, maintaining aspect ratio
-      const imgDims = embeddedImage.scale(1);
-      
-      const scaleX = (cellWidth - 10) / imgDims.width;
-      const scaleY = (cellHeight - 10) / imgDims.height;
-      const scale = Math.min(scaleX, scaleY);
-      
-      const drawWidth = imgDims.width * scale;
-      const drawHeight = imgDims.height * scale;
-
-      const x = MARGIN + (colIndex * cellWidth) + (cellWidth - drawWidth) / 2;
-      // PDF coordinates: Top row is highest Y
-      const y = PAGE_HEIGHT - MARGIN - ((rowIndex + 1) * cellHeight) + (cellHeight - drawHeight) / 2;
-
-      page.drawImage(embeddedImage, {
-        x,
-        y,
-        width: drawWidth,
-        height: drawHeight,
+    for (let i = 0; i < slots.length; i++) {
+      const pageItem = slots[i];
+      const cell = cells[i];
+      if (!pageItem) continue; // Blank padding
+      signal?.throwIfAborted();
+
+      let placedBox = getPageRenderMode(pageItem, layout) === 'vector'
+        ? await placeVectorPage(page, pageItem, cell)
+        : null;
+
+      if (!placedBox) {
+        const imageBytes = await processPageImage(pageItem);
+        const embeddedImage = await pdfDoc.embedJpg(imageBytes);
+
+        // Scale image to fit cell, maintaining aspect ratio
+        const imgDims = embeddedImage.scale(1);
+
+        const scaleX = cell.width / imgDims.width;
+        const scaleY = cell.height / imgDims.height;
+        const scale = Math.min(scaleX, scaleY);
+
+        const drawWidth = imgDims.width * scale;
+        const drawHeight = imgDims.height * scale;
+
+        placedBox = {
+          x: cell.x + (cell.width - drawWidth) / 2,
+          y: cell.y + (cell.height - drawHeight) / 2,
+          width: drawWidth,
+          height: drawHeight,
+        };
         // We do NOT use rotate here because we baked it into the imageBuffer in processPageImage
-      });
+        page.drawImage(embeddedImage, placedBox);
+      }
+
+      // Doodles and page numbers stay vector on both paths, so they are sharp at any print size
+      drawDoodlesToPdfPage(page, pageItem, placedBox, textFont);
+      if (labelFont) drawPageNumber(page, pageLabels[pageItem.id], pageNumbers, placedBox, cell, cellRooms[i], labelFont);
 
       if (layout.showBorders) {
         page.drawRectangle({
-          x: MARGIN + (colIndex * cellWidth),
-          y: PAGE_HEIGHT - MARGIN - ((rowIndex + 1) * cellHeight),
-          width: cellWidth,
-          height: cellHeight,
+          ...cell,
           borderWidth: 1,
           borderColor: rgb(0.8, 0.8, 0.8),
         });
       }
+      if (noteAreas) drawNoteArea(page, noteAreas[i], layout.handout);
+
+      onProgress?.(++placedCount, totalToPlace);
+    }
+
+    // Stamps go over the pages, so the watermark isn't hidden by opaque page images
+    drawWatermark(page, watermark, textFont, watermarkImage);
+    if (textFont && hasSheetStamps(stamps)) {
+      const context = getStampContext(slots, files, sheetNumber, totalSheets, date);
+      drawSheetStamps(page, stamps, context, textFont, layout.paper.marginMm * MM_TO_PT);
     }
   }
 
   return await pdfDoc.save();
 };
+
+// Renders every sheet of a finished export to PNG or JPEG and bundles them in a ZIP. Working
+// from the PDF keeps layout, filters and doodles identical to the PDF download. Short-edge
+// backs are rendered upright; their rotation only matters to a duplex printer.
+export const renderSheetsToZip = async (
+  pdfBytes: Uint8Array,
+  { format, dpi }: SheetImageOptions,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Uint8Array> => {
+  const pdf = await openPdfDocument(pdfBytes.buffer.slice(pdfBytes.byteOffset, pdfBytes.byteOffset + pdfBytes.byteLength) as ArrayBuffer);
+  const total = pdf.numPages;
+  const digits = String(total).length;
+  const entries: Record<string, [Uint8Array, { level: 0 }]> = {};
+  onProgress?.(0, total);
+
+  try {
+    for (let i = 1; i <= total; i++) {
+      signal?.throwIfAborted();
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale: dpi / 72, rotation: 0 });
+      const { canvas, context } = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+      await page.render({
+        canvasContext: context,
+        viewport: viewport,
+      } as any).promise;
+      page.cleanup();
+
+      const bytes = await canvasToBytes(canvas, format === 'png' ? 'image/png' : 'image/jpeg', 0.92);
+      releaseCanvas(canvas);
+      // Images are already compressed; storing them keeps zipping fast
+      entries[`sheet-${String(i).padStart(digits, '0')}.${format === 'png' ? 'png' : 'jpg'}`] = [bytes, { level: 0 }];
+      onProgress?.(i, total);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return zipSync(entries);
+};
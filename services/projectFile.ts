@@ -0,0 +1,170 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { LayoutSettings, PageItem, UploadedFile, WorkshopState } from '../types';
+import { DEFAULT_HANDOUT } from './layoutService';
+import { DEFAULT_PAGE_NUMBERS, DEFAULT_STAMPS, DEFAULT_WATERMARK } from './stampService';
+
+// A project is a ZIP holding project.json plus the source PDFs under files/.
+// Bump PROJECT_VERSION whenever the saved shape changes and add a migration from the
+// previous version, so projects made by older builds keep opening.
+
+export const PROJECT_EXTENSION = '.pdfbhai';
+
+const PROJECT_FORMAT = 'pdfbhai-project';
+const PROJECT_VERSION = 9;
+const MANIFEST_PATH = 'project.json';
+
+interface ProjectFileEntry {
+  id: string;
+  name: string;
+  kind: UploadedFile['kind'];
+  size: number;
+  pageCount: number;
+  path: string;
+}
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  createdAt: string;
+  files: ProjectFileEntry[];
+  pages: PageItem[];
+  layout: LayoutSettings;
+}
+
+// What older builds saved, newest first. Each version is described by what the next one added.
+type ManifestV8 = Omit<ProjectManifest, 'files'> & { files: Omit<ProjectFileEntry, 'kind'>[] };
+type ManifestV7 = Omit<ManifestV8, 'layout'> & { layout: Omit<ManifestV8['layout'], 'handout'> };
+type ManifestV6 = Omit<ManifestV7, 'layout'> & {
+  layout: Omit<ManifestV7['layout'], 'pageNumbers'> & { showPageNumbers: boolean };
+};
+type ManifestV5 = Omit<ManifestV6, 'layout'> & { layout: Omit<ManifestV6['layout'], 'stamps' | 'watermark'> };
+type ManifestV4 = Omit<ManifestV5, 'pages'> & { pages: Omit<ManifestV5['pages'][number], 'shapes'>[] };
+type ManifestV3 = Omit<ManifestV4, 'pages'> & {
+  pages: (Omit<ManifestV4['pages'][number], 'doodles'> & { drawingDataUrl?: string })[];
+};
+type ManifestV2 = Omit<ManifestV3, 'pages'> & { pages: Omit<ManifestV3['pages'][number], 'inkCoverage'>[] };
+type ManifestV1 = Omit<ManifestV2, 'pages'> & { pages: Omit<ManifestV2['pages'][number], 'perceptualHash'>[] };
+
+interface ManifestVersions {
+  1: ManifestV1;
+  2: ManifestV2;
+  3: ManifestV3;
+  4: ManifestV4;
+  5: ManifestV5;
+  6: ManifestV6;
+  7: ManifestV7;
+  8: ManifestV8;
+  9: ProjectManifest;
+}
+
+type AnyManifest = ManifestVersions[keyof ManifestVersions];
+type NextVersion = { 1: 2; 2: 3; 3: 4; 4: 5; 5: 6; 6: 7; 7: 8; 8: 9 };
+
+// Upgrades a manifest saved as version N to version N + 1
+const MIGRATIONS: { [V in keyof NextVersion]: (manifest: ManifestVersions[V]) => ManifestVersions[NextVersion[V]] } = {
+  // v2 added perceptual hashes; old pages get theirs when the Dashboard analyzes them again
+  1: manifest => ({ ...manifest, pages: manifest.pages.map(p => ({ ...p, perceptualHash: null })) }),
+  // v3 added ink coverage for blank page detection
+  2: manifest => ({ ...manifest, pages: manifest.pages.map(p => ({ ...p, inkCoverage: null })) }),
+  // v4 stores doodles as strokes; the old flattened bitmaps can't be turned back into strokes
+  3: manifest => ({
+    ...manifest,
+    pages: manifest.pages.map(({ drawingDataUrl: _drawingDataUrl, ...p }) => ({ ...p, doodles: [] })),
+  }),
+  // v5 added text, arrows and boxes next to the strokes
+  4: manifest => ({ ...manifest, pages: manifest.pages.map(p => ({ ...p, shapes: [] })) }),
+  // v6 added sheet headers, footers and the watermark
+  5: manifest => ({ ...manifest, layout: { ...manifest.layout, stamps: DEFAULT_STAMPS, watermark: DEFAULT_WATERMARK } }),
+  // v7 replaced the page number switch with numbering schemes and positions
+  6: ({ layout: { showPageNumbers, ...layout }, ...manifest }) => ({
+    ...manifest,
+    layout: { ...layout, pageNumbers: { ...DEFAULT_PAGE_NUMBERS, enabled: showPageNumbers } },
+  }),
+  // v8 added handout note areas
+  7: manifest => ({ ...manifest, layout: { ...manifest.layout, handout: DEFAULT_HANDOUT } }),
+  // v9 accepted images as sources; they are stored as one-page PDFs like everything else
+  8: manifest => ({ ...manifest, files: manifest.files.map(f => ({ ...f, kind: 'pdf' as const })) }),
+};
+
+export const isProjectFile = (file: File) => file.name.toLowerCase().endsWith(PROJECT_EXTENSION);
+
+export const createProjectFile = (files: Record<string, UploadedFile>, { pages, layout }: WorkshopState): Uint8Array => {
+  // Only files that still have pages in the deck are worth shipping
+  const usedFileIds = new Set(pages.map(p => p.fileId));
+  const usedFiles = Object.values(files).filter(f => usedFileIds.has(f.id));
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    createdAt: new Date().toISOString(),
+    files: usedFiles.map(({ id, name, kind, size, pageCount }) => ({ id, name, kind, size, pageCount, path: `files/${id}.pdf` })),
+    pages,
+    layout,
+  };
+
+  const entries: Record<string, Uint8Array | [Uint8Array, { level: 0 }]> = {
+    [MANIFEST_PATH]: strToU8(JSON.stringify(manifest)),
+  };
+  // PDFs are already compressed; storing them keeps export fast
+  for (const file of usedFiles) entries[`files/${file.id}.pdf`] = [new Uint8Array(file.data), { level: 0 }];
+
+  return zipSync(entries);
+};
+
+// Restores files and workshop state. Ids are regenerated so a project can be opened
+// alongside (or twice into) the same browser without clashing with saved sessions.
+export const readProjectFile = (data: ArrayBuffer): { files: Record<string, UploadedFile>; state: WorkshopState } => {
+  let archive: Record<string, Uint8Array>;
+  try {
+    archive = unzipSync(new Uint8Array(data));
+  } catch {
+    throw new Error('This is not a PDFbhai project file.');
+  }
+
+  const rawManifest = archive[MANIFEST_PATH];
+  if (!rawManifest) throw new Error('This is not a PDFbhai project file.');
+
+  let manifest: AnyManifest;
+  try {
+    manifest = JSON.parse(strFromU8(rawManifest)) as AnyManifest;
+  } catch {
+    throw new Error('The project file is damaged.');
+  }
+  if (manifest.format !== PROJECT_FORMAT || typeof manifest.version !== 'number') {
+    throw new Error('This is not a PDFbhai project file.');
+  }
+  if (manifest.version > PROJECT_VERSION) {
+    throw new Error('This project was made with a newer version of PDFbhai. Please update the app.');
+  }
+  while (manifest.version < PROJECT_VERSION) {
+    // Each step is type-checked where it is declared; here only the saved version is known
+    const migrate = MIGRATIONS[manifest.version as keyof NextVersion] as ((m: AnyManifest) => AnyManifest) | undefined;
+    if (!migrate) throw new Error('This is not a PDFbhai project file.');
+    manifest = { ...migrate(manifest), version: manifest.version + 1 };
+  }
+  const project = manifest as ProjectManifest;
+
+  const fileIds = new Map<string, string>();
+  const files: Record<string, UploadedFile> = {};
+  for (const entry of project.files) {
+    const bytes = archive[entry.path];
+    if (!bytes) throw new Error(`The project is missing "${entry.name}".`);
+
+    const id = crypto.randomUUID();
+    fileIds.set(entry.id, id);
+    files[id] = {
+      id,
+      name: entry.name,
+      kind: entry.kind,
+      size: entry.size,
+      pageCount: entry.pageCount,
+      data: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer,
+    };
+  }
+
+  const pages = project.pages
+    .filter(p => fileIds.has(p.fileId))
+    .map(p => ({ ...p, id: crypto.randomUUID(), fileId: fileIds.get(p.fileId)! }));
+
+  return { files, state: { pages, layout: project.layout } };
+};
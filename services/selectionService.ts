@@ -0,0 +1,98 @@
+import { PageItem } from '../types';
+
+// Which pages a selection tool works on: the whole deck in its current order,
+// or one file by its original page numbers
+export type SelectionScope = { kind: 'all' } | { kind: 'file'; fileId: string };
+
+// 'add' selects matches, 'remove' deselects them, 'only' selects matches and deselects every other page
+export type SelectionMode = 'add' | 'remove' | 'only';
+
+// Parses "1-5, 8, 12-" (or "1-5 8 12-") into 1-based page numbers. "12-" runs to the last page, "-3" starts at the first.
+// An empty expression means every page. Throws with a readable message on bad input.
+export const parsePageRanges = (expression: string, pageCount: number): Set<number> => {
+  const result = new Set<number>();
+  const trimmed = expression.trim();
+
+  if (trimmed === '') {
+    for (let n = 1; n <= pageCount; n++) result.add(n);
+    return result;
+  }
+
+  // "1 - 3" is a range, "1 3" two pages: glue dashes to their numbers, then split on spaces too
+  for (const part of trimmed.replace(/\s*-\s*/g, '-').split(/[\s,;]+/)) {
+    if (part === '') continue;
+
+    const match = /^(\d*)(-?)(\d*)$/.exec(part);
+    if (!match || (!match[1] && !match[3]) || (!match[2] && !match[1])) {
+      throw new Error(`"${part}" is not a page or range`);
+    }
+
+    const start = match[1] ? Number(match[1]) : 1;
+    const end = match[2] ? (match[3] ? Number(match[3]) : pageCount) : start;
+
+    if (start < 1 || end < 1) throw new Error('Pages start at 1');
+    if (start > end) throw new Error(`"${part}" runs backwards`);
+    if (start > pageCount) throw new Error(`Page ${start} doesn't exist (there are ${pageCount})`);
+
+    for (let n = start; n <= Math.min(end, pageCount); n++) result.add(n);
+  }
+
+  return result;
+};
+
+// Pages in scope, each with the number a range expression refers to
+const numberPagesInScope = (pages: PageItem[], scope: SelectionScope): { id: string; number: number }[] =>
+  scope.kind === 'all'
+    ? pages.map((p, i) => ({ id: p.id, number: i + 1 }))
+    : pages.filter(p => p.fileId === scope.fileId).map(p => ({ id: p.id, number: p.originalPageIndex + 1 }));
+
+// Highest page number a range expression can refer to within the scope
+export const getScopePageCount = (pages: PageItem[], scope: SelectionScope): number =>
+  numberPagesInScope(pages, scope).reduce((max, p) => Math.max(max, p.number), 0);
+
+const applyMatches = (pages: PageItem[], matchedIds: Set<string>, mode: SelectionMode): PageItem[] =>
+  pages.map(p => {
+    const isMatch = matchedIds.has(p.id);
+    const isSelected = mode === 'only' ? isMatch : isMatch ? mode === 'add' : p.isSelected;
+    return isSelected === p.isSelected ? p : { ...p, isSelected };
+  });
+
+export const selectByRanges = (
+  pages: PageItem[],
+  expression: string,
+  scope: SelectionScope,
+  mode: SelectionMode
+): PageItem[] => {
+  const numbered = numberPagesInScope(pages, scope);
+  const wanted = parsePageRanges(expression, getScopePageCount(pages, scope));
+  return applyMatches(pages, new Set(numbered.filter(p => wanted.has(p.number)).map(p => p.id)), mode);
+};
+
+// Every n-th page of the scope, counting from page `start` (n = 2, start = 1 gives 1, 3, 5...)
+export const selectEveryNth = (
+  pages: PageItem[],
+  n: number,
+  start: number,
+  scope: SelectionScope,
+  mode: SelectionMode
+): PageItem[] => {
+  const step = Math.max(1, Math.floor(n));
+  const numbered = numberPagesInScope(pages, scope);
+  const matched = numbered.filter(p => p.number >= start && (p.number - start) % step === 0);
+  return applyMatches(pages, new Set(matched.map(p => p.id)), mode);
+};
+
+export const invertSelection = (pages: PageItem[], scope: SelectionScope): PageItem[] => {
+  const inScope = new Set(numberPagesInScope(pages, scope).map(p => p.id));
+  return pages.map(p => inScope.has(p.id) ? { ...p, isSelected: !p.isSelected } : p);
+};
+
+// Shift-click: everything between the anchor and the clicked page (deck order) takes the clicked page's new state
+export const selectBetween = (pages: PageItem[], anchorId: string, targetId: string, isSelected: boolean): PageItem[] => {
+  const a = pages.findIndex(p => p.id === anchorId);
+  const b = pages.findIndex(p => p.id === targetId);
+  if (a === -1 || b === -1) return pages;
+
+  const [from, to] = a < b ? [a, b] : [b, a];
+  return pages.map((p, i) => i >= from && i <= to && p.isSelected !== isSelected ? { ...p, isSelected } : p);
+};
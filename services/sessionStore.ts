@@ -0,0 +1,158 @@
+import { AppStep, LayoutSettings, PageItem, UploadedFile } from '../types';
+import { DEFAULT_HANDOUT } from './layoutService';
+import { DEFAULT_PAGE_NUMBERS, DEFAULT_STAMPS, DEFAULT_WATERMARK } from './stampService';
+
+// Sessions live in IndexedDB so a refresh, or Android killing the app, doesn't lose work.
+// Session records hold the editable state; PDF bytes sit in their own store, keyed by file id,
+// so autosaves only write a file once.
+
+const DB_NAME = 'pdfbhai';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const FILES_STORE = 'files';
+
+// Older sessions are pruned beyond this many
+const MAX_SESSIONS = 10;
+
+export interface SavedSession {
+  id: string;
+  name: string;
+  updatedAt: number;
+  currentStep: AppStep;
+  pages: PageItem[];
+  layout: LayoutSettings;
+  fileIds: string[];
+}
+
+export type SessionSummary = Pick<SavedSession, 'id' | 'name' | 'updatedAt'> & { pageCount: number; fileCount: number };
+
+interface StoredFile extends UploadedFile {
+  sessionId: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        db.createObjectStore(FILES_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user frees up storage
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+const deleteSessionRecords = async (tx: IDBTransaction, sessionId: string) => {
+  tx.objectStore(SESSIONS_STORE).delete(sessionId);
+  const files = tx.objectStore(FILES_STORE);
+  const fileIds = await requestToPromise(files.index('sessionId').getAllKeys(sessionId));
+  fileIds.forEach(id => files.delete(id));
+};
+
+// Names a session after its first file, e.g. "Physics Notes.pdf +2 more"
+export const getSessionName = (files: UploadedFile[]): string => {
+  if (files.length === 0) return 'Untitled session';
+  return files.length === 1 ? files[0].name : `${files[0].name} +${files.length - 1} more`;
+};
+
+export const saveSession = async (
+  session: Omit<SavedSession, 'fileIds' | 'updatedAt'>,
+  files: Record<string, UploadedFile>
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, FILES_STORE], 'readwrite');
+  const done = transactionDone(tx);
+
+  const record: SavedSession = { ...session, fileIds: Object.keys(files), updatedAt: Date.now() };
+  tx.objectStore(SESSIONS_STORE).put(record);
+
+  // Write new files, drop removed ones; unchanged bytes are left alone
+  const fileStore = tx.objectStore(FILES_STORE);
+  const storedIds = new Set(await requestToPromise(fileStore.index('sessionId').getAllKeys(session.id)));
+  for (const file of Object.values(files)) {
+    if (!storedIds.has(file.id)) fileStore.put({ ...file, sessionId: session.id } satisfies StoredFile);
+  }
+  storedIds.forEach(id => {
+    if (!files[id as string]) fileStore.delete(id);
+  });
+
+  // Keep only the most recent sessions
+  const sessionIds = await requestToPromise(tx.objectStore(SESSIONS_STORE).index('updatedAt').getAllKeys());
+  const stale = sessionIds.slice(0, Math.max(0, sessionIds.length - MAX_SESSIONS)).filter(id => id !== session.id);
+  for (const id of stale) await deleteSessionRecords(tx, id as string);
+
+  await done;
+};
+
+// Most recent first
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDb();
+  const sessions = await requestToPromise<SavedSession[]>(
+    db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll()
+  );
+  return sessions
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(({ id, name, updatedAt, pages, fileIds }) => ({ id, name, updatedAt, pageCount: pages.length, fileCount: fileIds.length }));
+};
+
+export const loadSession = async (
+  id: string
+): Promise<{ session: SavedSession; files: Record<string, UploadedFile> } | null> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, FILES_STORE]);
+  const session = await requestToPromise<SavedSession | undefined>(tx.objectStore(SESSIONS_STORE).get(id));
+  if (!session) return null;
+
+  const storedFiles = await requestToPromise<StoredFile[]>(tx.objectStore(FILES_STORE).index('sessionId').getAll(id));
+  const files: Record<string, UploadedFile> = {};
+  // Every file was a PDF before images could be added
+  for (const { sessionId: _sessionId, ...file } of storedFiles) files[file.id] = { ...file, kind: file.kind ?? 'pdf' };
+
+  // Sessions saved before doodles became strokes carry a bitmap that can't be edited; drop it.
+  // Shapes came later still.
+  const pages = session.pages.map(({ drawingDataUrl: _drawingDataUrl, ...p }: PageItem & { drawingDataUrl?: string }) => ({
+    ...p,
+    doodles: p.doodles ?? [],
+    shapes: p.shapes ?? [],
+  }));
+
+  // Layout options added since the session was saved start at their defaults
+  // (the old page number switch becomes the enabled flag of the richer settings)
+  const { showPageNumbers, ...savedLayout } = session.layout as LayoutSettings & { showPageNumbers?: boolean };
+  const layout = {
+    ...savedLayout,
+    stamps: savedLayout.stamps ?? DEFAULT_STAMPS,
+    watermark: savedLayout.watermark ?? DEFAULT_WATERMARK,
+    handout: savedLayout.handout ?? DEFAULT_HANDOUT,
+    pageNumbers: savedLayout.pageNumbers ?? { ...DEFAULT_PAGE_NUMBERS, enabled: !!showPageNumbers },
+  };
+
+  return { session: { ...session, pages, layout }, files };
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, FILES_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  await deleteSessionRecords(tx, id);
+  await done;
+};
@@ -0,0 +1,236 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, degrees, rgb } from 'pdf-lib';
+import { Box, PageItem, PageNumberSettings, SheetStampSettings, UploadedFile, WatermarkSettings } from '../types';
+
+// Headers, footers, page numbers and the watermark stamped on output sheets as real PDF
+// text, so they stay sharp and searchable.
+
+export const DEFAULT_STAMPS: SheetStampSettings = {
+  header: { text: '', align: 'left' },
+  footer: { text: '', align: 'center' },
+  fontSize: 9,
+};
+
+export const DEFAULT_PAGE_NUMBERS: PageNumberSettings = {
+  enabled: false,
+  scheme: 'original',
+  position: 'bottom-center',
+  outside: false,
+  fontSize: 9,
+  filePrefix: 'L',
+};
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  type: 'none',
+  text: 'DRAFT',
+  imageDataUrl: null,
+  opacity: 0.15,
+  scale: 0.6,
+};
+
+// PDF text is set in Helvetica; Arial shares its metrics, so previews measure and draw
+// with it where Helvetica is missing
+export const PDF_FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+
+export const STAMP_TOKENS = ['{file}', '{date}', '{sheet}', '{totalSheets}', '{pages}'];
+
+// Values for the template tokens of one sheet
+export interface StampContext {
+  file: string;
+  date: string;
+  sheet: number;
+  totalSheets: number;
+  pages: string;
+}
+
+const STAMP_COLOR = rgb(0.35, 0.35, 0.35);
+const WATERMARK_COLOR = rgb(0.5, 0.5, 0.5);
+
+// Helvetica cap height in font sizes, for centring the watermark on its baseline
+const CAP_HEIGHT = 0.72;
+
+// Standard PDF fonts only cover WinAnsi; anything else would make pdf-lib throw
+export const toEncodableText = (text: string, font: PDFFont) => {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text).map(c => supported.has(c.codePointAt(0)!) ? c : '?').join('');
+};
+
+export const hasSheetStamps = (stamps: SheetStampSettings) => !!(stamps.header.text.trim() || stamps.footer.text.trim());
+
+// "3–6, 9": original page numbers on the sheet, consecutive pages of one file collapsed into runs
+const formatPageRuns = (slots: (PageItem | null)[]) => {
+  const runs: { fileId: string; first: number; last: number }[] = [];
+  for (const page of slots) {
+    if (!page) continue;
+    const number = page.originalPageIndex + 1;
+    const run = runs[runs.length - 1];
+    if (run && run.fileId === page.fileId && run.last + 1 === number) run.last = number;
+    else runs.push({ fileId: page.fileId, first: number, last: number });
+  }
+  return runs.map(r => r.first === r.last ? `${r.first}` : `${r.first}–${r.last}`).join(', ');
+};
+
+export const getStampContext = (
+  slots: (PageItem | null)[],
+  files: Record<string, Pick<UploadedFile, 'name'>>,
+  sheet: number,
+  totalSheets: number,
+  date: string
+): StampContext => {
+  const fileNames = [...new Set(slots.filter(Boolean).map(p => files[p!.fileId]?.name.replace(/\.(pdf|jpe?g|png|webp)$/i, '')))];
+  return { file: fileNames.filter(Boolean).join(', '), date, sheet, totalSheets, pages: formatPageRuns(slots) };
+};
+
+export const fillStampTemplate = (template: string, context: StampContext) =>
+  template.replace(/\{(file|date|sheet|totalSheets|pages)\}/g, (_, token: keyof StampContext) => String(context[token]));
+
+// Baselines (PDF coordinates) for the header and footer: centred in the margin, but never
+// closer to the paper edge than the font allows. `inset` is the distance from the side edges.
+export const getStampPlacement = (sheetHeight: number, fontSize: number, margin: number) => {
+  const band = Math.max(margin, fontSize * 2);
+  return {
+    inset: Math.max(margin, fontSize),
+    headerY: sheetHeight - band / 2 - (fontSize * CAP_HEIGHT) / 2,
+    footerY: band / 2 - (fontSize * CAP_HEIGHT) / 2,
+  };
+};
+
+export const drawSheetStamps = (
+  sheet: PDFPage,
+  stamps: SheetStampSettings,
+  context: StampContext,
+  font: PDFFont,
+  margin: number
+) => {
+  const { width, height } = sheet.getSize();
+  const size = stamps.fontSize;
+  const { inset, headerY, footerY } = getStampPlacement(height, size, margin);
+
+  for (const [stamp, y] of [[stamps.header, headerY], [stamps.footer, footerY]] as const) {
+    const text = toEncodableText(fillStampTemplate(stamp.text, context).trim(), font);
+    if (!text) continue;
+
+    const textWidth = font.widthOfTextAtSize(text, size);
+    const x = stamp.align === 'left' ? inset : stamp.align === 'right' ? width - inset - textWidth : (width - textWidth) / 2;
+    sheet.drawText(text, { x, y, size, font, color: STAMP_COLOR });
+  }
+};
+
+// The watermark runs corner to corner, bottom-left to top-right
+export const getWatermarkAngle = (sheetWidth: number, sheetHeight: number) => Math.atan2(sheetHeight, sheetWidth);
+
+export const embedWatermarkImage = (pdfDoc: PDFDocument, dataUrl: string): Promise<PDFImage> =>
+  dataUrl.startsWith('data:image/png') ? pdfDoc.embedPng(dataUrl) : pdfDoc.embedJpg(dataUrl);
+
+// Centred box for an image watermark: `scale` of the sheet width, shrunk further when a tall
+// image would otherwise run off the sheet. Shared by the export and the Dashboard preview.
+export const getWatermarkImageBox = (
+  sheetWidth: number,
+  sheetHeight: number,
+  imageWidth: number,
+  imageHeight: number,
+  scale: number
+): Box => {
+  let width = sheetWidth * scale;
+  let height = (width * imageHeight) / imageWidth;
+  if (height > sheetHeight) {
+    width *= sheetHeight / height;
+    height = sheetHeight;
+  }
+  return { x: (sheetWidth - width) / 2, y: (sheetHeight - height) / 2, width, height };
+};
+
+export const drawWatermark = (sheet: PDFPage, watermark: WatermarkSettings, font: PDFFont | null, image: PDFImage | null) => {
+  const { width, height } = sheet.getSize();
+
+  if (watermark.type === 'image' && image) {
+    const box = getWatermarkImageBox(width, height, image.width, image.height, watermark.scale);
+    sheet.drawImage(image, { ...box, opacity: watermark.opacity });
+    return;
+  }
+
+  if (watermark.type !== 'text' || !font) return;
+  const text = toEncodableText(watermark.text.trim(), font);
+  const unitWidth = font.widthOfTextAtSize(text, 1);
+  if (!text || unitWidth === 0) return;
+
+  const angle = getWatermarkAngle(width, height);
+  const size = (Math.hypot(width, height) * watermark.scale) / unitWidth;
+  const textWidth = unitWidth * size;
+  const capHeight = size * CAP_HEIGHT;
+
+  // pdf-lib rotates around the start of the baseline; step back from the centre so the text is centred
+  sheet.drawText(text, {
+    x: width / 2 - (Math.cos(angle) * textWidth) / 2 + (Math.sin(angle) * capHeight) / 2,
+    y: height / 2 - (Math.sin(angle) * textWidth) / 2 - (Math.cos(angle) * capHeight) / 2,
+    size,
+    font,
+    color: WATERMARK_COLOR,
+    opacity: watermark.opacity,
+    rotate: degrees((angle * 180) / Math.PI),
+  });
+};
+
+// Page number label of every page that gets printed, keyed by page id. `activePages` is the
+// selection in output order; files are numbered by where they first show up in it.
+export const getPageNumberLabels = (activePages: PageItem[], settings: PageNumberSettings): Record<string, string> => {
+  const fileNumbers = new Map<string, number>();
+  const labels: Record<string, string> = {};
+
+  activePages.forEach((page, i) => {
+    if (!fileNumbers.has(page.fileId)) fileNumbers.set(page.fileId, fileNumbers.size + 1);
+    const pageNumber = page.originalPageIndex + 1;
+    if (settings.scheme === 'running') labels[page.id] = `${i + 1}`;
+    else if (settings.scheme === 'file-prefixed') labels[page.id] = `${settings.filePrefix}${fileNumbers.get(page.fileId)}-${pageNumber}`;
+    else labels[page.id] = `${pageNumber}`;
+  });
+
+  return labels;
+};
+
+// Where a page number goes (PDF coordinates): `x` is its left edge, centre or right edge
+// depending on `align`, `y` its baseline. Inside numbers sit on the page, outside ones just
+// beyond the cell edge. `room` is the gutter or margin around the cell (see getRoomAroundCell);
+// when an outside number doesn't fit there it goes on the page instead, and `outside` says
+// which one it got.
+export const getPageNumberPlacement = (
+  settings: PageNumberSettings,
+  pageBox: Box,
+  cell: Box,
+  room: { above: number; below: number }
+) => {
+  const [vertical, align] = settings.position.split('-') as ['top' | 'bottom', 'left' | 'center' | 'right'];
+  const size = settings.fontSize;
+  const capHeight = size * CAP_HEIGHT;
+  const outside = settings.outside && size * 0.3 + capHeight <= (vertical === 'top' ? room.above : room.below);
+  const box = outside ? cell : pageBox;
+  const pad = outside ? 0 : size * 0.5;
+
+  const x = align === 'left' ? box.x + pad : align === 'right' ? box.x + box.width - pad : box.x + box.width / 2;
+  const y = outside
+    ? vertical === 'top' ? cell.y + cell.height + size * 0.3 : cell.y - size * 0.3 - capHeight
+    : vertical === 'top' ? box.y + box.height - pad - capHeight : box.y + pad;
+
+  return { x, y, align, outside };
+};
+
+export const drawPageNumber = (
+  sheet: PDFPage,
+  label: string,
+  settings: PageNumberSettings,
+  pageBox: Box,
+  cell: Box,
+  room: { above: number; below: number },
+  font: PDFFont
+) => {
+  const text = toEncodableText(label, font);
+  const size = settings.fontSize;
+  const { x: anchorX, y, align, outside } = getPageNumberPlacement(settings, pageBox, cell, room);
+  const textWidth = font.widthOfTextAtSize(text, size);
+  const x = align === 'left' ? anchorX : align === 'right' ? anchorX - textWidth : anchorX - textWidth / 2;
+
+  // On the page a white pill keeps the number readable over content
+  if (!outside) {
+    sheet.drawRectangle({ x: x - size * 0.3, y: y - size * 0.3, width: textWidth + size * 0.6, height: size * 1.4, color: rgb(1, 1, 1), opacity: 0.9 });
+  }
+  sheet.drawText(text, { x, y, size, font, color: rgb(0, 0, 0) });
+};
@@ -6,31 +6,183 @@ export interface PageFilters {
   blackness: number; // 0-100, effectively contrast/threshold
 }
 
+// What the thumbnail pipeline measured and suggested for a page
+export interface AutoFilterDecision {
+  isDarkBackground: boolean;
+  backgroundLuminance: number; // 0-255, most common luminance on the page
+  suggested: PageFilters;
+}
+
+// Everything measured from a page's pixels when it is rendered
+export interface PageAnalysis {
+  autoFilters: AutoFilterDecision;
+  perceptualHash: string;
+  inkCoverage: number;
+}
+
+export type DoodleTool = 'pencil' | 'marker';
+
+// One freehand stroke of the Doodle Studio. Points and width are fractions of the page
+// (as shown before the user's rotation, top-left origin), so strokes can be drawn sharply
+// at any resolution or as vector paths.
+export interface DoodleStroke {
+  id: string;
+  tool: DoodleTool;
+  color: string; // #rrggbb
+  width: number; // Fraction of the page width
+  points: [number, number][];
+}
+
+export type DoodleShapeKind = 'text' | 'arrow' | 'rect' | 'ellipse' | 'highlight';
+
+// A placed Doodle Studio object that stays movable and resizable. Same coordinate space as
+// strokes. Arrows run from (x, y) to (x + width, y + height), so their size may be negative.
+export interface DoodleShape {
+  id: string;
+  kind: DoodleShapeKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string; // #rrggbb
+  strokeWidth: number; // Fraction of the page width, for arrows and outlines
+  text?: string; // Text boxes only, lines split on \n
+  fontSize?: number; // Text boxes only, fraction of the page width
+}
+
 export interface PageItem {
   id: string; // Unique ID for DnD
   fileId: string;
   originalPageIndex: number; // 0-based index in the original PDF
-  thumbnailDataUrl: string; // Base64 image of the page
-  width: number;
+  width: number; // Thumbnail size (0.5 scale), known before the thumbnail itself renders
   height: number;
   isSelected: boolean;
   filters: PageFilters;
-  drawingDataUrl: string | null; // Base64 PNG of the doodle layer (transparent)
+  filterOverrides: (keyof PageFilters)[]; // Filters edited for this page alone; global controls leave them alone
+  autoFilters: AutoFilterDecision | null; // Suggestion the filters started from, null if not analyzed
+  perceptualHash: string | null; // Difference hash (hex) for spotting near-duplicate slides, null if not analyzed
+  inkCoverage: number | null; // 0-1 share of the page that isn't background, null if not analyzed
+  doodles: DoodleStroke[]; // Drawn on top of the page, oldest first
+  shapes: DoodleShape[]; // Text, arrows and boxes, drawn above the strokes
   rotation: 0 | 90 | 180 | 270; // Rotation in degrees
 }
 
+// How a page ends up in the exported PDF:
+// 'vector' places the original page as-is, 'raster' bakes filters/doodles into a JPEG
+export type PageRenderMode = 'vector' | 'raster';
+
 export interface UploadedFile {
   id: string;
   name: string;
+  kind: 'pdf' | 'image'; // Images are converted to a one-page PDF when loaded
   size: number;
   pageCount: number;
   data: ArrayBuffer; // Raw PDF data
 }
 
+export type PaperSize = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal' | 'custom';
+
+export interface PaperSettings {
+  size: PaperSize;
+  orientation: 'portrait' | 'landscape';
+  customWidthMm: number; // Only used when size is 'custom' (portrait width)
+  customHeightMm: number; // Only used when size is 'custom' (portrait height)
+  marginMm: number; // Outer margin on every edge of the sheet
+  gutterMm: number; // Spacing between neighbouring cells
+}
+
+// Order in which consecutive pages fill the grid cells of a sheet
+export type CellOrder = 'row-major' | 'column-major' | 'right-to-left';
+
+// A rectangle in PDF points (bottom-left origin, like pdf-lib)
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 'grid' tiles pages row by row; 'booklet' imposes them for saddle-stitch folding;
+// 'handout' tiles them like 'grid' with a note-taking area beside or below every page
+export type Imposition = 'grid' | 'booklet' | 'handout';
+
+export interface HandoutSettings {
+  notesPosition: 'right' | 'below';
+  notesStyle: 'lines' | 'dots' | 'blank';
+  notesRatio: number; // 0.2-0.8 share of each grid cell given to the notes
+  lineSpacingMm: number; // Distance between ruled lines or dot rows
+}
+
+// Duplex output. 'odd'/'even' are the two passes of manual duplexing:
+// print the fronts, flip the stack, then print the backs in reverse order.
+export type DuplexMode = 'off' | 'both' | 'odd' | 'even';
+
+// One printed side of a sheet. Slot i goes into cell i; null slots stay blank.
+export interface SheetSide {
+  slots: (PageItem | null)[];
+  isBack: boolean; // Back side of a duplex sheet
+  sheetNumber: number; // Physical sheet of paper (1-based) the side is printed on
+}
+
+export type StampAlign = 'left' | 'center' | 'right';
+
+// Header or footer line printed on every output sheet. The template may use the tokens
+// {file}, {date}, {sheet}, {totalSheets} and {pages}; an empty template prints nothing.
+export interface SheetStamp {
+  text: string;
+  align: StampAlign;
+}
+
+export interface SheetStampSettings {
+  header: SheetStamp;
+  footer: SheetStamp;
+  fontSize: number; // Points
+}
+
+export interface WatermarkSettings {
+  type: 'none' | 'text' | 'image';
+  text: string;
+  imageDataUrl: string | null; // PNG or JPEG data URL
+  opacity: number; // 0-1
+  scale: number; // 0.1-1: text spans this share of the sheet diagonal, images this share of its width
+}
+
+// 'original' repeats each file's own page number, 'running' counts through the output,
+// 'file-prefixed' reads like "L3-12" (third file in the output, its page 12)
+export type PageNumberScheme = 'original' | 'running' | 'file-prefixed';
+
+export type PageNumberPosition = `${'top' | 'bottom'}-${'left' | 'center' | 'right'}`;
+
+export interface PageNumberSettings {
+  enabled: boolean;
+  scheme: PageNumberScheme;
+  position: PageNumberPosition;
+  outside: boolean; // Just outside the cell instead of on the page
+  fontSize: number; // Points
+  filePrefix: string; // Goes before the file number in 'file-prefixed' labels
+}
+
 export interface LayoutSettings {
-  nUp: 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8; 
+  imposition: Imposition;
+  bookletSignatureSheets: number; // Sheets folded together per signature, 0 = one signature
+  handout: HandoutSettings;
+  rows: number; // 1-4
+  cols: number; // 1-4
+  cellOrder: CellOrder;
+  paper: PaperSettings;
+  duplex: DuplexMode;
+  duplexFlip: 'long-edge' | 'short-edge'; // Short-edge flips get their back sides pre-rotated 180°
   showBorders: boolean;
-  showPageNumbers: boolean;
+  pageNumbers: PageNumberSettings;
+  stamps: SheetStampSettings;
+  watermark: WatermarkSettings;
+  vectorOutput: boolean; // Keep untouched pages as vector instead of rasterizing everything
+}
+
+// Everything the Dashboard edits; undo/redo snapshots hold one of these
+export interface WorkshopState {
+  pages: PageItem[];
+  layout: LayoutSettings;
 }
 
 export enum AppStep {
@@ -40,3 +192,21 @@ export enum AppStep {
   LAYOUT = 4,
   DOWNLOAD = 5,
 }
+
+// --- Export worker protocol ---
+export interface SheetImageOptions {
+  format: 'png' | 'jpeg';
+  dpi: number;
+}
+
+export interface ExportRequest {
+  pages: PageItem[];
+  files: Record<string, UploadedFile>;
+  layout: LayoutSettings;
+  images?: SheetImageOptions; // Set to get the sheets as a ZIP of images instead of a PDF
+}
+
+export type ExportWorkerMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; bytes: Uint8Array }
+  | { type: 'error'; message: string };
@@ -1,11 +1,81 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+// pdf.js data files the app serves itself instead of fetching them from a CDN
+const PDFJS_ASSET_DIRS = ['cmaps', 'standard_fonts'];
+const PDFJS_ROOT = path.resolve(__dirname, 'node_modules/pdfjs-dist');
+
+// Public files that make up the app shell (the APK download is deliberately left out)
+const SHELL_PUBLIC_FILES = ['manifest.json', 'logo.png'];
+
+// Serves the pdf.js data files under /pdfjs/ and turns public/sw.js into a service worker
+// that precaches every file of this build under a cache name derived from its contents.
+const offlineAssets = (): Plugin => {
+  let outDir = 'dist';
+
+  return {
+    name: 'pdfbhai-offline-assets',
+
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+
+    configureServer(server) {
+      server.middlewares.use('/pdfjs', (req, res, next) => {
+        const file = path.join(PDFJS_ROOT, decodeURIComponent((req.url ?? '').split('?')[0]));
+        if (!file.startsWith(PDFJS_ROOT) || !fs.existsSync(file) || !fs.statSync(file).isFile()) return next();
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+
+    generateBundle() {
+      for (const dir of PDFJS_ASSET_DIRS) {
+        for (const name of fs.readdirSync(path.join(PDFJS_ROOT, dir))) {
+          this.emitFile({
+            type: 'asset',
+            fileName: `pdfjs/${dir}/${name}`,
+            source: fs.readFileSync(path.join(PDFJS_ROOT, dir, name)),
+          });
+        }
+      }
+    },
+
+    writeBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      for (const fileName of Object.keys(bundle).sort()) {
+        const output = bundle[fileName];
+        hash.update(fileName);
+        hash.update(output.type === 'chunk' ? output.code : output.source);
+      }
+
+      const manifest = {
+        version: hash.digest('hex').slice(0, 12),
+        assets: [
+          '/',
+          ...SHELL_PUBLIC_FILES.map(name => `/${name}`),
+          ...Object.keys(bundle).filter(name => !name.endsWith('.map')).map(name => `/${name}`),
+        ],
+      };
+
+      // public/ has already been copied into the output; fill in the placeholder there
+      const swPath = path.join(outDir, 'sw.js');
+      const sw = fs.readFileSync(swPath, 'utf8');
+      fs.writeFileSync(swPath, sw.replace('self.__PRECACHE_MANIFEST__', JSON.stringify(manifest)));
+    },
+  };
+};
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), offlineAssets()],
   build: {
     target: 'esnext', // Ensure support for top-level await used in PDF libraries
   },
+  worker: {
+    format: 'es', // The export worker is a module worker and pdf.js code-splits
+  },
   optimizeDeps: {
     include: ['pdfjs-dist'], // Ensure PDF.js is pre-bundled correctly
     esbuildOptions: {